@@ -1,25 +1,128 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { BrainCircuit, Copy, CheckCircle2, PlayCircle, Download, FileText, FileJson, FileType, History, X, Trash2, CalendarClock, ChevronRight, Globe, BookOpen, ExternalLink, Captions } from 'lucide-react';
-import { GeneratedScript, Tone, VoiceProfile, HistoryItem } from './types';
-import { DEFAULT_SCRIPT } from './constants';
-import { generateScript } from './services/geminiService';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { BrainCircuit, Copy, CheckCircle2, PlayCircle, Download, FileText, FileJson, FileType, History, X, Trash2, CalendarClock, ChevronRight, Globe, BookOpen, ExternalLink, Captions, Cpu, Wrench, RotateCcw, Loader2, FlaskConical, Hash, Layers, FileCode2, ShieldAlert, Languages, Link2, Gauge, Coins, BadgeCheck, WholeWord } from 'lucide-react';
+import { GeneratedScript, Tone, ToneId, ToneProfile, VoiceProfile, HistoryItem, BatchItem, BatchJob, GenerationRequest, PromptRecord, ProviderId, ScriptSegment, SegmentRewrite, StoryFramework, Platform, Language, UsageLine, BrandProfile, WordTiming, SpeechPace } from './types';
+import { DEFAULT_SCRIPT, DEFAULT_FRAMEWORK, LANGUAGES } from './constants';
+import { generateScript, regenerateSegment, translateScript, getActiveProvider, setActiveProvider, PROVIDERS } from './services/scriptService';
+import { getErrorMessage, isCancelled, GenerationError } from './services/errors';
+import { normalizeLabel, findPacingOverruns } from './services/scriptValidation';
+import { getPlatformProfile, clampDuration } from './services/platformService';
+import { createBatchId } from './services/batchService';
+import { renderScriptPrompts, describeTemplateRef } from './services/promptService';
+import { checkTopicRelevance } from './services/inputSafety';
+import { getScriptLanguage, getLanguageProfile, describeLanguage } from './services/languageService';
+import { analyzeScript } from './services/scriptAnalysis';
+import { checkClaims } from './services/factCheck';
+import { getSessionUsage, resetSessionUsage, subscribeUsage, subscribeBudgetWarnings, addUsage, mergeUsage, summarizeUsage, formatCost } from './services/usageService';
+import { loadCustomFrameworks, saveCustomFrameworks, getAllFrameworks, findFramework, findSection } from './services/frameworkService';
+import { loadBrandProfiles, saveBrandProfiles, findBrandProfile, lintScript } from './services/brandService';
+import { getCustomTones, saveCustomTones, getAllTones, findToneProfile, getToneName, restoreCustomTone } from './services/toneService';
 import { ScriptSegmentCard } from './components/ScriptSegmentCard';
 import { InputForm } from './components/InputForm';
+import { HookLab } from './components/HookLab';
+import { FrameworkEditor } from './components/FrameworkEditor';
+import { BrandProfileEditor } from './components/BrandProfileEditor';
+import { ToneEditor } from './components/ToneEditor';
+import { MasterPlayer } from './components/MasterPlayer';
+import { TimelinePosition, loadSegmentSpeech, retimeToSpeech } from './services/timeline';
+import { getCaptionWords, timingsMatchText } from './services/wordAlignment';
+import { BatchPanel } from './components/BatchPanel';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { QualityReport } from './components/QualityReport';
+import { ClaimList, CLAIM_STATUS_LABELS } from './components/ClaimList';
+import { UsagePanel } from './components/UsagePanel';
+
+// Batch runs can add many entries at once, so keep a little more than a single session's worth
+const HISTORY_LIMIT = 50;
+
+// Replaces a script's segments; translated scripts keep their pacing report in sync with the edit
+const withSegments = (base: GeneratedScript, segments: ScriptSegment[]): GeneratedScript => ({
+  ...base,
+  segments,
+  ...(base.pacingWarnings ? { pacingWarnings: findPacingOverruns(segments, getScriptLanguage(base)) } : {})
+});
+
+// Storing word timings replaces the script object, so pending rewrites compare the words instead
+const hasSameText = (a: GeneratedScript, b: GeneratedScript) =>
+  a === b || (a.topic === b.topic && a.segments.length === b.segments.length && a.segments.every((s, i) => s.text === b.segments[i].text));
 
 const App: React.FC = () => {
   const [script, setScript] = useState<GeneratedScript>(DEFAULT_SCRIPT);
   const [topic, setTopic] = useState<string>('');
-  const [tone, setTone] = useState<Tone>(Tone.URGENT);
+  const [tone, setTone] = useState<ToneId>(Tone.URGENT);
+  const [customTones, setCustomTones] = useState<ToneProfile[]>(getCustomTones);
+  const [showToneEditor, setShowToneEditor] = useState<boolean>(false);
   const [duration, setDuration] = useState<number>(45);
   const [useSearch, setUseSearch] = useState<boolean>(false);
+  const [platform, setPlatform] = useState<Platform>(Platform.YOUTUBE_SHORTS);
+  const [language, setLanguage] = useState<Language>(Language.ENGLISH);
+  const [frameworkId, setFrameworkId] = useState<string>(DEFAULT_FRAMEWORK.id);
+  const [customFrameworks, setCustomFrameworks] = useState<StoryFramework[]>(() => loadCustomFrameworks());
+  const [showFrameworkEditor, setShowFrameworkEditor] = useState<boolean>(false);
+  const [brandId, setBrandId] = useState<string | undefined>(undefined);
+  const [brandProfiles, setBrandProfiles] = useState<BrandProfile[]>(() => loadBrandProfiles());
+  const [showBrandEditor, setShowBrandEditor] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState<boolean>(false);
+  const [showRepairs, setShowRepairs] = useState<boolean>(false);
+  // Segments received so far while a script is streaming in; null when not streaming
+  const [streamingSegments, setStreamingSegments] = useState<ScriptSegment[] | null>(null);
   const [voiceProfile, setVoiceProfile] = useState<VoiceProfile | null>(null);
+  const [providerId, setProviderId] = useState<ProviderId>(getActiveProvider().id);
   
   // History State
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  // History entry the current script was saved as, so edits can be written back to it
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [showHookLab, setShowHookLab] = useState<boolean>(false);
+  const [showBatch, setShowBatch] = useState<boolean>(false);
+  const [showPromptEditor, setShowPromptEditor] = useState<boolean>(false);
+  const [showPrompt, setShowPrompt] = useState<boolean>(false);
+  const [showQuality, setShowQuality] = useState<boolean>(false);
+  const [showTranslateMenu, setShowTranslateMenu] = useState<boolean>(false);
+  // Target language of the translation in flight, if any
+  const [translatingTo, setTranslatingTo] = useState<Language | null>(null);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  const [sessionUsage, setSessionUsage] = useState<UsageLine[]>(getSessionUsage);
+  const [budgetWarning, setBudgetWarning] = useState<string | null>(null);
+  // Segment the full-script player is currently on, if it is playing
+  const [masterPosition, setMasterPosition] = useState<TimelinePosition | null>(null);
+
+  // In-flight script generation; replaced or aborted whenever its response would no longer apply
+  const generationRef = useRef<AbortController | null>(null);
+  const translationRef = useRef<AbortController | null>(null);
+  // Latest script, so async rewrites can tell whether the script they started from is still showing
+  const scriptRef = useRef<GeneratedScript>(script);
+  scriptRef.current = script;
+  // Read by the usage listener, which is subscribed once
+  const currentHistoryIdRef = useRef<string | null>(currentHistoryId);
+  currentHistoryIdRef.current = currentHistoryId;
+
+  const frameworks = useMemo(() => getAllFrameworks(customFrameworks), [customFrameworks]);
+  const framework = useMemo(() => findFramework(frameworkId, frameworks), [frameworkId, frameworks]);
+  const brand = useMemo(() => findBrandProfile(brandId, brandProfiles), [brandId, brandProfiles]);
+
+  // Switching platform keeps the duration inside the new platform's limits
+  const handlePlatformChange = (p: Platform) => {
+    setPlatform(p);
+    setDuration(d => clampDuration(p, d));
+  };
+
+  const handleFrameworksChange = (updated: StoryFramework[]) => {
+    setCustomFrameworks(updated);
+    saveCustomFrameworks(updated);
+  };
+
+  const handleTonesChange = (updated: ToneProfile[]) => {
+    setCustomTones(updated);
+    saveCustomTones(updated);
+  };
+
+  const handleBrandProfilesChange = (updated: BrandProfile[]) => {
+    setBrandProfiles(updated);
+    saveBrandProfiles(updated);
+  };
 
   // Load history from local storage on mount
   useEffect(() => {
@@ -33,18 +136,110 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const saveToHistory = (newScript: GeneratedScript, t: Tone, d: number) => {
+  // Functional update so concurrent batch results don't overwrite each other
+  const addToHistory = (item: HistoryItem) => {
+    setHistory(prev => {
+      const updatedHistory = [item, ...prev].slice(0, HISTORY_LIMIT);
+      localStorage.setItem('neuroviral_history', JSON.stringify(updatedHistory));
+      return updatedHistory;
+    });
+  };
+
+  const saveToHistory = (newScript: GeneratedScript, t: ToneId, d: number, fw: StoryFramework, p: Platform, prompt: PromptRecord, b?: BrandProfile) => {
     const newItem: HistoryItem = {
       id: Date.now().toString(),
       timestamp: Date.now(),
       script: newScript,
       tone: t,
-      duration: d
+      duration: d,
+      frameworkId: fw.id,
+      platform: p,
+      brandId: b?.id,
+      prompt
     };
 
-    const updatedHistory = [newItem, ...history].slice(0, 20); // Keep last 20 items
-    setHistory(updatedHistory);
-    localStorage.setItem('neuroviral_history', JSON.stringify(updatedHistory));
+    addToHistory(newItem);
+    setCurrentHistoryId(newItem.id);
+  };
+
+  const saveBatchResult = (newScript: GeneratedScript, item: BatchItem, job: BatchJob, prompt: PromptRecord) => {
+    const newItem: HistoryItem = {
+      id: createBatchId('history'),
+      timestamp: Date.now(),
+      script: newScript,
+      tone: item.tone,
+      duration: item.duration,
+      frameworkId: job.frameworkId,
+      platform: job.platform,
+      brandId: job.brandId,
+      batchId: job.id,
+      prompt
+    };
+    addToHistory(newItem);
+    return newItem.id;
+  };
+
+  // Translations are new entries linked to the entry they were translated from
+  const saveTranslation = (translated: GeneratedScript, sourceId: string | null) => {
+    const newItem: HistoryItem = {
+      id: Date.now().toString(),
+      timestamp: Date.now(),
+      script: translated,
+      tone,
+      duration,
+      frameworkId: framework.id,
+      platform,
+      brandId: brand?.id,
+      translatedFromId: sourceId ?? undefined
+    };
+    addToHistory(newItem);
+    setCurrentHistoryId(newItem.id);
+  };
+
+  const openBatchResult = (historyId: string) => {
+    const item = history.find(h => h.id === historyId);
+    if (!item) return;
+    setShowBatch(false);
+    loadHistoryItem(item);
+  };
+
+  // Pass `duration` when the edit changed the script's total length
+  const updateHistoryScript = (id: string | null, updatedScript: GeneratedScript, duration?: number) => {
+    if (!id) return;
+    setHistory(prev => {
+      const updatedHistory = prev.map(item => item.id === id ? { ...item, script: updatedScript, ...(duration !== undefined ? { duration } : {}) } : item);
+      localStorage.setItem('neuroviral_history', JSON.stringify(updatedHistory));
+      return updatedHistory;
+    });
+  };
+
+  // Calls made on an open entry (rewrites, voiceovers, images) count towards that entry's total
+  const addHistoryUsage = (id: string | null, line: UsageLine) => {
+    if (!id) return;
+    setHistory(prev => {
+      const updatedHistory = prev.map(item => item.id === id ? { ...item, usage: addUsage(item.usage || [], line) } : item);
+      localStorage.setItem('neuroviral_history', JSON.stringify(updatedHistory));
+      return updatedHistory;
+    });
+  };
+
+  // Generation and translation usage arrives on the script itself; everything else is attributed here
+  useEffect(() => {
+    const unsubscribeUsage = subscribeUsage((line, attached) => {
+      setSessionUsage(getSessionUsage());
+      if (!attached) addHistoryUsage(currentHistoryIdRef.current, line);
+    });
+    const unsubscribeWarnings = subscribeBudgetWarnings(setBudgetWarning);
+    return () => {
+      unsubscribeUsage();
+      unsubscribeWarnings();
+    };
+  }, []);
+
+  const handleResetUsage = () => {
+    resetSessionUsage();
+    setSessionUsage([]);
+    setBudgetWarning(null);
   };
 
   const deleteHistoryItem = (e: React.MouseEvent, id: string) => {
@@ -62,30 +257,186 @@ const App: React.FC = () => {
   };
 
   const loadHistoryItem = (item: HistoryItem) => {
+    // A pending generation would otherwise overwrite the loaded script when it resolves
+    cancelGeneration();
+    cancelTranslation();
     setScript(item.script);
+    setCurrentHistoryId(item.id);
     setTopic(item.script.topic);
-    setTone(item.tone);
+    // A custom tone deleted since the entry was saved comes back from the script's snapshot
+    const tones = restoreCustomTone(item.script.customTone, customTones);
+    if (tones !== customTones) handleTonesChange(tones);
+    setTone(findToneProfile(item.tone, getAllTones(tones)).id);
     setDuration(item.duration);
+    setFrameworkId(findFramework(item.frameworkId, frameworks).id);
+    setPlatform(item.platform || Platform.YOUTUBE_SHORTS);
+    setBrandId(findBrandProfile(item.brandId, brandProfiles)?.id);
+    setLanguage(getScriptLanguage(item.script));
     setShowHistory(false);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const handleProviderChange = (id: ProviderId) => {
+    setActiveProvider(id);
+    setProviderId(id);
+    setError(null);
+  };
+
+  const cancelGeneration = () => {
+    if (!generationRef.current) return;
+    generationRef.current.abort();
+    generationRef.current = null;
+    setStreamingSegments(null);
+    setLoading(false);
+  };
+
+  const cancelTranslation = () => {
+    translationRef.current?.abort();
+    translationRef.current = null;
+    setTranslatingTo(null);
+  };
+
   const handleGenerate = useCallback(async () => {
     if (!topic.trim()) return;
-    
+
+    cancelTranslation();
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    const isCurrent = () => generationRef.current === controller;
+
     setLoading(true);
     setError(null);
+    setStreamingSegments([]);
     try {
-      const newScript = await generateScript(topic, tone, duration, useSearch);
+      const request: GenerationRequest = { topic, tone, duration, framework, platform, useSearch, language, brand };
+      const prompts = renderScriptPrompts(request);
+      const newScript = await generateScript({ ...request, prompts }, (segment, index) => {
+        if (!isCurrent()) return;
+        // The stream was retried from the start, so the failed attempt's segments no longer apply
+        if (!segment) {
+          setStreamingSegments([]);
+          return;
+        }
+        // Labels are normalized early so cards get the right colours before the final repair pass
+        const streamed = { ...segment, label: normalizeLabel(segment.label, framework) };
+        setStreamingSegments(prev => {
+          const next = [...(prev || [])];
+          next[index] = streamed;
+          return next;
+        });
+      }, controller.signal);
+      if (!isCurrent()) return;
       setScript(newScript);
-      saveToHistory(newScript, tone, duration);
+      saveToHistory(newScript, tone, duration, framework, platform, prompts, brand);
+    } catch (err) {
+      if (!isCurrent() || isCancelled(err)) return;
+      setError(getErrorMessage(err));
+      console.error(err);
+    } finally {
+      if (isCurrent()) {
+        generationRef.current = null;
+        setStreamingSegments(null);
+        setLoading(false);
+      }
+    }
+  }, [topic, tone, duration, useSearch, framework, platform, language, brand]);
+
+  const handleRegenerateSegment = async (index: number, guidance: string, signal: AbortSignal) => {
+    const segment = await regenerateSegment(script, index, tone, framework, platform, brand, guidance || undefined, signal);
+    const current = scriptRef.current;
+    if (!hasSameText(current, script)) throw new GenerationError('CANCELLED', "Script changed during rewrite");
+    const updatedScript = withSegments(current, current.segments.map((s, i) => i === index ? segment : s));
+    setScript(updatedScript);
+    updateHistoryScript(currentHistoryId, updatedScript);
+  };
+
+  /**
+   * Stores a segment's word timings once its voiceover is decoded, so karaoke subtitles and caption
+   * exports use them. Builds on scriptRef so several segments aligned in one pass all land.
+   */
+  const handleWordTimings = (index: number, timings: WordTiming[]) => {
+    const segment = scriptRef.current.segments[index];
+    if (!segment || !timingsMatchText(timings, segment.text)) return;
+    if (JSON.stringify(segment.wordTimings) === JSON.stringify(timings)) return;
+    patchSegment(index, { wordTimings: timings });
+  };
+
+  // Normal pace is left off the segment, matching scripts saved before paces existed
+  const handleSpeechPaceChange = (index: number, pace: SpeechPace) => {
+    patchSegment(index, { speechPace: pace === 'normal' ? undefined : pace });
+  };
+
+  // Updates one segment on top of the latest script, without counting as a content change
+  const patchSegment = (index: number, patch: Partial<ScriptSegment>) => {
+    const current = scriptRef.current;
+    const updatedScript = withSegments(current, current.segments.map((s, i) => i === index ? { ...s, ...patch } : s));
+    scriptRef.current = updatedScript;
+    setScript(updatedScript);
+    updateHistoryScript(currentHistoryIdRef.current, updatedScript);
+  };
+
+  /**
+   * Resizes every segment's window to its real voiceover, back to back, so the script's total
+   * becomes the length it actually reads in, and the duration follows it within the platform's range.
+   * Clips come from the media cache where possible; `onProgress` hears as each one is ready. Resolves
+   * with a warning when the new length falls outside the platform's range.
+   */
+  const handleRetimeToSpeech = async (signal: AbortSignal, onProgress: (done: number, total: number) => void): Promise<string | null> => {
+    const source = scriptRef.current;
+    const total = source.segments.length;
+    onProgress(0, total);
+    const buffers = await loadSegmentSpeech(source.segments, tone, voiceProfile?.voiceName, getScriptLanguage(source), done => onProgress(done, total), signal);
+    if (signal.aborted) throw new GenerationError('CANCELLED', "Re-timing cancelled");
+    const current = scriptRef.current;
+    if (!hasSameText(current, source)) throw new GenerationError('CANCELLED', "Script changed during re-timing");
+    const segments = retimeToSpeech(current.segments, buffers.map(b => b.duration));
+    const updatedScript = withSegments(current, segments);
+    const retimedDuration = segments[segments.length - 1]?.endTime ?? duration;
+    const clamped = clampDuration(platform, retimedDuration);
+    scriptRef.current = updatedScript;
+    setScript(updatedScript);
+    setDuration(clamped);
+    updateHistoryScript(currentHistoryIdRef.current, updatedScript, clamped);
+    if (clamped === retimedDuration) return null;
+    const { formatName, minDuration, maxDuration } = getPlatformProfile(platform);
+    return `The script now reads in ${retimedDuration}s, outside the ${minDuration}–${maxDuration}s range for a ${formatName}; the duration stays at ${clamped}s.`;
+  };
+
+  // Swaps a hook lab variant into segments[0], keeping the hook's label and time window
+  const handleApplyHook = (hook: SegmentRewrite) => {
+    const updatedScript = withSegments(script, script.segments.map((s, i) => i === 0 ? { ...s, text: hook.text, visual: hook.visual } : s));
+    setScript(updatedScript);
+    updateHistoryScript(currentHistoryId, updatedScript);
+  };
+
+  const handleTranslate = async (target: Language) => {
+    setShowTranslateMenu(false);
+    translationRef.current?.abort();
+    const controller = new AbortController();
+    translationRef.current = controller;
+    const source = script;
+    const sourceId = currentHistoryId;
+
+    setTranslatingTo(target);
+    setTranslationError(null);
+    try {
+      const translated = await translateScript(source, target, tone, platform, controller.signal);
+      // Discard the result if the user moved on to another script meanwhile
+      if (translationRef.current !== controller || !hasSameText(scriptRef.current, source)) return;
+      setScript(translated);
+      saveTranslation(translated, sourceId);
     } catch (err) {
-      setError("Failed to generate script. Please check your API key and try again.");
+      if (translationRef.current !== controller || isCancelled(err)) return;
+      setTranslationError(getErrorMessage(err));
       console.error(err);
     } finally {
-      setLoading(false);
+      if (translationRef.current === controller) {
+        translationRef.current = null;
+        setTranslatingTo(null);
+      }
     }
-  }, [topic, tone, duration, useSearch, history]);
+  };
 
   const handleCopy = useCallback(() => {
     const text = script.segments
@@ -97,13 +448,21 @@ const App: React.FC = () => {
     setTimeout(() => setCopied(false), 2000);
   }, [script]);
 
-  const downloadScript = useCallback((format: 'txt' | 'md' | 'json' | 'srt') => {
+  // Recomputed on every edit so a rewritten segment is re-checked against the research.
+  // Scripts written without Deep Research have nothing to check against, so every claim would read as unsupported.
+  const hasResearch = !!(script.sources?.length || script.keyFacts?.length);
+  const claims = useMemo(() => hasResearch ? checkClaims(script) : [], [script, hasResearch]);
+  const brandViolations = useMemo(() => brand ? lintScript(script, brand) : [], [script, brand]);
+
+  const downloadScript = useCallback((format: 'txt' | 'md' | 'json' | 'srt' | 'words') => {
     if (!script) return;
     
     let content = '';
     let mimeType = '';
     let extension = '';
     const filename = (script.topic || 'script').replace(/[^a-z0-9]/gi, '-').toLowerCase();
+    // The script's real length, which differs from the requested duration once it is re-timed
+    const totalSeconds = script.segments[script.segments.length - 1]?.endTime ?? duration;
 
     const formatTimeSRT = (seconds: number) => {
       const h = Math.floor(seconds / 3600);
@@ -121,27 +480,43 @@ const App: React.FC = () => {
         extension = 'json';
     } else if (format === 'md') {
          content = `# ${script.topic}\n\n`;
-         content += `**Total Duration:** ${duration}s\n`;
-         content += `**Tone:** ${tone}\n`;
+         content += `**Total Duration:** ${totalSeconds}s\n`;
+         content += `**Tone:** ${getToneName(tone)}\n`;
+         content += `**Framework:** ${framework.name}\n`;
+         content += `**Platform:** ${platform}\n`;
+         content += `**Language:** ${describeLanguage(getScriptLanguage(script))}\n`;
+         if (script.hashtags && script.hashtags.length > 0) content += `**Hashtags:** ${script.hashtags.join(' ')}\n`;
          if (voiceProfile) content += `**Voice Profile:** ${voiceProfile.voiceName} (${voiceProfile.analysis})\n`;
          content += `\n`;
          
          if (script.keyFacts && script.keyFacts.length > 0) {
              content += `## Key Research Facts\n`;
-             script.keyFacts.forEach(fact => content += `- ${fact}\n`);
+             script.keyFacts.forEach((fact, i) => content += `${i + 1}. ${fact}\n`);
              content += `\n`;
          }
 
          if (script.sources && script.sources.length > 0) {
              content += `## Sources\n`;
-             script.sources.forEach(src => content += `- [${src.title}](${src.uri})\n`);
+             script.sources.forEach((src, i) => content += `${i + 1}. [${src.title}](${src.uri})\n`);
              content += `\n`;
          }
 
          content += `## Script\n`;
-         script.segments.forEach(s => {
+         script.segments.forEach((s, index) => {
             content += `### [${s.startTime}s-${s.endTime}s] ${s.label}\n`;
+            const section = findSection(framework, s.label);
+            if (section?.description) content += `_${section.description}_\n\n`;
             content += `**Audio:** ${s.text}\n\n`;
+            const segmentClaims = claims.filter(c => c.segmentIndex === index);
+            if (segmentClaims.length > 0) {
+              content += `**Claims:**\n`;
+              segmentClaims.forEach(c => {
+                const citations = c.sourceIndices.map(i => script.sources?.[i] ? ` [[${i + 1}]](${script.sources[i].uri})` : '').join('');
+                const keyFact = c.keyFactIndex !== undefined ? ` (key fact ${c.keyFactIndex + 1})` : '';
+                content += `- **${CLAIM_STATUS_LABELS[c.status]}:** "${c.text}"${citations}${keyFact} — _${c.note}_\n`;
+              });
+              content += `\n`;
+            }
             content += `> **Visual:** ${s.visual}\n\n`;
          });
          mimeType = 'text/markdown';
@@ -154,10 +529,23 @@ const App: React.FC = () => {
         });
         mimeType = 'text/plain';
         extension = 'srt';
+    } else if (format === 'words') {
+        // One cue per spoken word, for captions that pop in word by word
+        getCaptionWords(script.segments).forEach((w, index) => {
+            content += `${index + 1}\n`;
+            content += `${formatTimeSRT(w.start)} --> ${formatTimeSRT(w.end)}\n`;
+            content += `${w.word}\n\n`;
+        });
+        mimeType = 'text/plain';
+        extension = 'words.srt';
     } else {
          content = `TITLE: ${script.topic}\n`;
-         content += `DURATION: ${duration}s\n`;
-         content += `TONE: ${tone}\n`;
+         content += `DURATION: ${totalSeconds}s\n`;
+         content += `TONE: ${getToneName(tone)}\n`;
+         content += `FRAMEWORK: ${framework.name}\n`;
+         content += `PLATFORM: ${platform}\n`;
+         content += `LANGUAGE: ${getScriptLanguage(script)}\n`;
+         if (script.hashtags && script.hashtags.length > 0) content += `HASHTAGS: ${script.hashtags.join(' ')}\n`;
          if (voiceProfile) content += `VOICE PROFILE: ${voiceProfile.voiceName}\n`;
          content += `\n`;
 
@@ -191,23 +579,33 @@ const App: React.FC = () => {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  }, [script, tone, duration, voiceProfile]);
+  }, [script, tone, duration, voiceProfile, framework, platform, claims]);
 
-  const handleShare = useCallback((platform: 'twitter' | 'email') => {
+  const handleShare = useCallback((channel: 'twitter' | 'email') => {
     const textStr = script.segments
       .map(s => `[${s.label}]: ${s.text}`)
       .join('\n\n');
     
-    if (platform === 'twitter') {
+    if (channel === 'twitter') {
       // Twitter truncates content, so we share a teaser
       const tweetText = `Just generated a viral neuroscience-backed script about "${script.topic}"!\n\nHook: "${script.segments[0].text}"\n\n#ContentCreator #ScriptGen`;
       window.open(`https://twitter.com/intent/tweet?text=${encodeURIComponent(tweetText)}`, '_blank');
-    } else if (platform === 'email') {
+    } else if (channel === 'email') {
       const subject = `Script Draft: ${script.topic}`;
-      const body = `Here is the YouTube Short script for "${script.topic}":\n\n${textStr}\n\nGenerated by NeuroViral ScriptGen`;
+      const body = `Here is the ${getPlatformProfile(platform).formatName} script for "${script.topic}":\n\n${textStr}\n\nGenerated by NeuroViral ScriptGen`;
       window.location.href = `mailto:?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
     }
-  }, [script]);
+  }, [script, platform]);
+
+  const isStreaming = streamingSegments !== null;
+  const currentHistoryItem = history.find(item => item.id === currentHistoryId);
+  // Rendered prompt the current script was generated with, when it came from history
+  const currentPrompt = currentHistoryItem?.prompt;
+  const translationSource = currentHistoryItem?.translatedFromId
+    ? history.find(item => item.id === currentHistoryItem.translatedFromId)
+    : undefined;
+  const scriptLanguage = getScriptLanguage(script);
+  const visibleSegments = streamingSegments ?? script.segments;
 
   // Calculate actual total duration from the script segments
   const currentDuration = useMemo(() => {
@@ -216,6 +614,12 @@ const App: React.FC = () => {
     return lastSegment.endTime;
   }, [script]);
 
+  // A script that never mentions its topic usually means the input steered the model somewhere else
+  const topicCheck = useMemo(() => checkTopicRelevance(script, script.topic), [script]);
+  // Violations tied to one segment are shown on its card; the rest apply to the script as a whole
+  const scriptWideViolations = brandViolations.filter(v => v.segmentIndex === undefined);
+  const analysis = useMemo(() => analyzeScript(script, tone), [script, tone, customTones]);
+
   const formatDate = (timestamp: number) => {
     return new Intl.DateTimeFormat('en-US', {
       month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
@@ -226,7 +630,41 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-slate-950 flex flex-col items-center p-4 sm:p-8 font-sans overflow-x-hidden relative">
       
       {/* Top Actions */}
-      <div className="absolute top-4 right-4 z-50">
+      <div className="absolute top-4 right-4 z-50 flex items-center gap-2">
+        <div className="flex items-center gap-2 bg-slate-900/80 border border-slate-700 text-slate-300 pl-3 pr-1 py-1 rounded-full text-sm backdrop-blur-sm">
+          <Cpu className="w-4 h-4 text-indigo-400" aria-hidden="true" />
+          <label htmlFor="provider-select" className="sr-only">Generation provider</label>
+          <select
+            id="provider-select"
+            value={providerId}
+            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+            disabled={loading}
+            className="bg-transparent text-slate-300 text-sm font-medium py-1 pr-2 rounded-full focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            title={PROVIDERS.find(p => p.id === providerId)?.description}
+          >
+            {PROVIDERS.map((p) => (
+              <option key={p.id} value={p.id} disabled={!p.isAvailable()} className="bg-slate-900">
+                {p.name}{!p.isAvailable() ? ' (no API key)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          onClick={() => setShowPromptEditor(true)}
+          className="flex items-center gap-2 bg-slate-900/80 hover:bg-slate-800 border border-slate-700 text-slate-300 px-4 py-2 rounded-full text-sm font-medium backdrop-blur-sm transition-all hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Open prompt templates"
+        >
+          <FileCode2 className="w-4 h-4" aria-hidden="true" />
+          <span className="hidden sm:inline">Prompts</span>
+        </button>
+        <button
+          onClick={() => setShowBatch(true)}
+          className="flex items-center gap-2 bg-slate-900/80 hover:bg-slate-800 border border-slate-700 text-slate-300 px-4 py-2 rounded-full text-sm font-medium backdrop-blur-sm transition-all hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Open batch generation"
+        >
+          <Layers className="w-4 h-4" aria-hidden="true" />
+          <span className="hidden sm:inline">Batch</span>
+        </button>
         <button 
           onClick={() => setShowHistory(true)}
           className="flex items-center gap-2 bg-slate-900/80 hover:bg-slate-800 border border-slate-700 text-slate-300 px-4 py-2 rounded-full text-sm font-medium backdrop-blur-sm transition-all hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
@@ -261,19 +699,56 @@ const App: React.FC = () => {
           setTopic={setTopic} 
           tone={tone} 
           setTone={setTone} 
+          customTones={customTones}
+          onManageTones={() => setShowToneEditor(true)}
           duration={duration}
           setDuration={setDuration}
           useSearch={useSearch}
           setUseSearch={setUseSearch}
+          platform={platform}
+          setPlatform={handlePlatformChange}
+          language={language}
+          setLanguage={setLanguage}
+          frameworks={frameworks}
+          framework={framework}
+          setFrameworkId={setFrameworkId}
+          onManageFrameworks={() => setShowFrameworkEditor(true)}
+          brandProfiles={brandProfiles}
+          brand={brand}
+          setBrandId={setBrandId}
+          onManageBrands={() => setShowBrandEditor(true)}
           onGenerate={handleGenerate}
+          onCancel={cancelGeneration}
           isLoading={loading}
           voiceProfile={voiceProfile}
           setVoiceProfile={setVoiceProfile}
         />
 
         {error && (
-          <div role="alert" className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl mb-8 text-center">
-            {error}
+          <div role="alert" className="bg-red-500/10 border border-red-500/20 text-red-400 p-4 rounded-xl mb-8 flex flex-col sm:flex-row items-center justify-center gap-3 text-center">
+            <span>{error}</span>
+            <button
+              onClick={handleGenerate}
+              disabled={loading || !topic.trim()}
+              className="flex items-center gap-1.5 bg-red-500/10 hover:bg-red-500/20 text-red-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50"
+            >
+              <RotateCcw className="w-3.5 h-3.5" aria-hidden="true" />
+              Retry
+            </button>
+          </div>
+        )}
+
+        {budgetWarning && (
+          <div role="status" className="bg-amber-500/10 border border-amber-500/20 text-amber-300 p-3 rounded-xl mb-8 flex items-center gap-3 text-sm">
+            <Coins className="w-4 h-4 flex-shrink-0" aria-hidden="true" />
+            <span className="flex-1">{budgetWarning}</span>
+            <button
+              onClick={() => setBudgetWarning(null)}
+              className="p-1 text-amber-300/70 hover:text-amber-200 rounded focus:outline-none focus:ring-2 focus:ring-amber-500"
+              aria-label="Dismiss budget warning"
+            >
+              <X className="w-4 h-4" aria-hidden="true" />
+            </button>
           </div>
         )}
 
@@ -283,10 +758,70 @@ const App: React.FC = () => {
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between mb-6 px-2 gap-4">
             <h2 className="text-xl font-bold text-white flex items-center">
               <PlayCircle className="w-5 h-5 mr-2 text-indigo-400" aria-hidden="true" />
-              Current Script: <span className="text-indigo-300 ml-2 font-normal truncate max-w-[200px]">{script.topic}</span>
+              Current Script: <span className="text-indigo-300 ml-2 font-normal truncate max-w-[200px]">{isStreaming ? topic : script.topic}</span>
             </h2>
             
             <div className="flex items-center gap-3 w-full sm:w-auto">
+              <button
+                onClick={() => setShowHookLab(true)}
+                disabled={isStreaming || script.segments.length === 0}
+                className="flex items-center justify-center space-x-2 text-sm font-medium text-rose-300 hover:text-white transition-colors bg-slate-900 hover:bg-slate-800 px-4 py-2 rounded-lg border border-slate-800 h-[42px] focus:outline-none focus:ring-2 focus:ring-rose-500 disabled:opacity-50"
+                aria-label="Open hook lab"
+                title="A/B test alternative hooks"
+              >
+                <FlaskConical className="w-4 h-4" aria-hidden="true" />
+                <span className="hidden sm:inline">Hook Lab</span>
+              </button>
+
+              <button
+                onClick={() => setShowQuality(!showQuality)}
+                disabled={isStreaming || script.segments.length === 0}
+                className={`relative flex items-center justify-center space-x-2 text-sm font-medium transition-colors px-4 py-2 rounded-lg border h-[42px] focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 ${
+                  showQuality ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-200' : 'bg-slate-900 hover:bg-slate-800 border-slate-800 text-cyan-300 hover:text-white'
+                }`}
+                aria-label={`Script quality report, ${analysis.issues.length} ${analysis.issues.length === 1 ? 'issue' : 'issues'}`}
+                aria-expanded={showQuality}
+                aria-controls="quality-report"
+                title="Pacing and readability checks"
+              >
+                <Gauge className="w-4 h-4" aria-hidden="true" />
+                <span className="hidden sm:inline">Quality</span>
+                {!isStreaming && analysis.issues.length > 0 && (
+                  <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-slate-950 text-[10px] font-bold flex items-center justify-center" aria-hidden="true">
+                    {analysis.issues.length}
+                  </span>
+                )}
+              </button>
+
+              <div className="relative">
+                <button
+                  onClick={() => translatingTo ? cancelTranslation() : setShowTranslateMenu(open => !open)}
+                  disabled={isStreaming || script.segments.length === 0}
+                  className="flex items-center justify-center space-x-2 text-sm font-medium text-emerald-300 hover:text-white transition-colors bg-slate-900 hover:bg-slate-800 px-4 py-2 rounded-lg border border-slate-800 h-[42px] focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-50"
+                  aria-label={translatingTo ? `Cancel translation to ${translatingTo}` : 'Translate script'}
+                  aria-haspopup="menu"
+                  aria-expanded={showTranslateMenu}
+                  title={translatingTo ? 'Cancel translation' : 'Translate this script, keeping its timings'}
+                >
+                  {translatingTo ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" /> : <Languages className="w-4 h-4" aria-hidden="true" />}
+                  <span className="hidden sm:inline">{translatingTo ? 'Cancel' : 'Translate'}</span>
+                </button>
+                {showTranslateMenu && !translatingTo && (
+                  <div role="menu" aria-label="Translate to" className="absolute right-0 top-full mt-2 z-20 w-48 bg-slate-900 border border-slate-700 rounded-lg shadow-xl p-1 animate-in fade-in slide-in-from-top-1">
+                    {LANGUAGES.filter(l => l !== scriptLanguage).map(l => (
+                      <button
+                        key={l}
+                        role="menuitem"
+                        onClick={() => handleTranslate(l)}
+                        className="w-full text-left px-3 py-2 text-sm text-slate-300 hover:bg-slate-800 hover:text-white rounded-md transition-colors focus:outline-none focus:bg-slate-800"
+                      >
+                        {describeLanguage(l)}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               {/* Export Group */}
               <div role="group" aria-label="Export options" className="flex items-center bg-slate-900 rounded-lg p-1 border border-slate-800">
                  <button 
@@ -324,6 +859,15 @@ const App: React.FC = () => {
                  >
                     <Captions className="w-4 h-4" aria-hidden="true" />
                  </button>
+                 <div className="w-px h-4 bg-slate-800 mx-1" aria-hidden="true"></div>
+                 <button
+                    onClick={() => downloadScript('words')}
+                    className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    title="Export word-level captions (SRT)"
+                    aria-label="Export word-level captions as SRT file"
+                 >
+                    <WholeWord className="w-4 h-4" aria-hidden="true" />
+                 </button>
               </div>
 
               <button 
@@ -346,8 +890,81 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {!isStreaming && script.hashtags && script.hashtags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-6 px-2" aria-label="Hashtags">
+              <Hash className="w-4 h-4 text-slate-500" aria-hidden="true" />
+              {script.hashtags.map(tag => (
+                <span key={tag} className="text-xs font-medium text-sky-400 bg-sky-500/10 px-2 py-1 rounded">{tag}</span>
+              ))}
+            </div>
+          )}
+
+          {showQuality && !isStreaming && script.segments.length > 0 && (
+            <QualityReport script={script} tone={tone} analysis={analysis} onClose={() => setShowQuality(false)} />
+          )}
+
+          {translationError && (
+            <div role="alert" className="mb-6 flex items-center justify-between gap-3 bg-red-500/10 border border-red-500/20 text-red-400 rounded-xl px-4 py-3 text-sm">
+              <span>Translation failed: {translationError}</span>
+              <button
+                onClick={() => setTranslationError(null)}
+                className="p-1 text-red-300 hover:text-white rounded focus:outline-none focus:ring-2 focus:ring-red-500"
+                aria-label="Dismiss translation error"
+              >
+                <X className="w-4 h-4" aria-hidden="true" />
+              </button>
+            </div>
+          )}
+
+          {!isStreaming && translationSource && (
+            <div className="mb-6 flex items-center gap-2 px-2 text-sm text-slate-400">
+              <Link2 className="w-4 h-4 text-emerald-400" aria-hidden="true" />
+              <span>{describeLanguage(scriptLanguage)} translation of</span>
+              <button
+                onClick={() => loadHistoryItem(translationSource)}
+                className="text-emerald-300 hover:text-white underline-offset-2 hover:underline truncate max-w-[240px] focus:outline-none focus:ring-2 focus:ring-emerald-500 rounded"
+              >
+                {translationSource.script.topic}
+              </button>
+            </div>
+          )}
+
+          {!isStreaming && script.pacingWarnings && script.pacingWarnings.length > 0 && (
+            <div role="status" className="mb-6 flex items-start gap-3 bg-amber-500/10 border border-amber-500/30 text-amber-300 rounded-xl px-4 py-3 text-sm">
+              <Languages className="w-5 h-5 flex-shrink-0" aria-hidden="true" />
+              <div>
+                <p>Some translated segments run longer than their time window. Shorten them with Rewrite before recording.</p>
+                <ul className="mt-1 text-amber-300/70 text-xs space-y-0.5">
+                  {script.pacingWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {!isStreaming && brand && scriptWideViolations.length > 0 && (
+            <div role="status" className="mb-6 flex items-start gap-3 bg-rose-500/10 border border-rose-500/30 text-rose-300 rounded-xl px-4 py-3 text-sm">
+              <BadgeCheck className="w-5 h-5 flex-shrink-0" aria-hidden="true" />
+              <div>
+                <p>This script breaks the "{brand.name}" brand guide. Edit or rewrite it before publishing.</p>
+                <ul className="mt-1 text-rose-300/70 text-xs space-y-0.5">
+                  {scriptWideViolations.map(v => <li key={v.message}>{v.message}</li>)}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {!isStreaming && !topicCheck.onTopic && (
+            <div role="status" className="mb-6 flex items-start gap-3 bg-amber-500/10 border border-amber-500/30 text-amber-300 rounded-xl px-4 py-3 text-sm">
+              <ShieldAlert className="w-5 h-5 flex-shrink-0" aria-hidden="true" />
+              <p>
+                This script may not be about "{script.topic}": it never mentions {topicCheck.missing.join(', ')}.
+                Review it before publishing, or regenerate with a plainer topic.
+              </p>
+            </div>
+          )}
+
           {/* Grounding / Research Insights (Conditionally Rendered) */}
-          {((script.keyFacts && script.keyFacts.length > 0) || (script.sources && script.sources.length > 0)) && (
+          {hasResearch && (
             <div className="mb-8 bg-emerald-500/5 rounded-2xl border border-emerald-500/20 p-6 animate-in fade-in slide-in-from-top-4">
               <div className="flex items-center mb-4">
                 <Globe className="w-5 h-5 text-emerald-400 mr-2" />
@@ -363,7 +980,7 @@ const App: React.FC = () => {
                     <ul className="space-y-2">
                       {script.keyFacts.map((fact, idx) => (
                         <li key={idx} className="text-sm text-slate-300 flex items-start">
-                          <span className="text-emerald-500 mr-2">•</span>
+                          <span className="text-emerald-500 mr-2 font-mono text-xs mt-0.5">{idx + 1}.</span>
                           {fact}
                         </li>
                       ))}
@@ -385,6 +1002,7 @@ const App: React.FC = () => {
                             rel="noopener noreferrer"
                             className="text-sm text-indigo-400 hover:text-indigo-300 hover:underline truncate block transition-colors"
                           >
+                            <span className="font-mono text-xs text-slate-500 mr-1.5">[{idx + 1}]</span>
                             {source.title || source.uri}
                           </a>
                         </li>
@@ -393,33 +1011,185 @@ const App: React.FC = () => {
                   </div>
                 )}
               </div>
+
+              {claims.length > 0 && <ClaimList script={script} claims={claims} />}
             </div>
           )}
 
+          {!isStreaming && (
+            <MasterPlayer
+              script={script}
+              tone={tone}
+              language={scriptLanguage}
+              voiceProfile={voiceProfile}
+              onPositionChange={setMasterPosition}
+              onWordTimings={handleWordTimings}
+            />
+          )}
+
           {/* Timeline Container */}
           <div className="bg-slate-950/50 rounded-3xl p-2 sm:p-8 border border-slate-800/50 shadow-2xl shadow-indigo-500/5">
             <div className="ml-4 sm:ml-2" role="list" aria-label="Script Segments">
-              {script.segments.map((segment, index) => (
+              {visibleSegments.map((segment, index) => (
                 <div role="listitem" key={index}>
                   <ScriptSegmentCard 
                     segment={segment} 
-                    isLast={index === script.segments.length - 1}
+                    isLast={!isStreaming && index === visibleSegments.length - 1}
                     tone={tone}
+                    framework={framework}
+                    language={scriptLanguage}
+                    analysis={isStreaming ? undefined : analysis.segments[index]}
+                    brandViolations={isStreaming ? undefined : brandViolations.filter(v => v.segmentIndex === index)}
+                    masterPosition={masterPosition?.index === index ? masterPosition : undefined}
                     voiceProfile={voiceProfile}
                     onShare={handleShare}
+                    onRegenerate={isStreaming ? undefined : (guidance, signal) => handleRegenerateSegment(index, guidance, signal)}
+                    onWordTimings={isStreaming ? undefined : (timings) => handleWordTimings(index, timings)}
+                    onSpeechPaceChange={isStreaming ? undefined : (pace) => handleSpeechPaceChange(index, pace)}
+                    onRetimeToSpeech={isStreaming ? undefined : handleRetimeToSpeech}
                   />
                 </div>
               ))}
+
+              {/* Placeholder for the segment currently being written */}
+              {isStreaming && (
+                <div role="listitem" className="relative pl-8 pb-2">
+                  <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-slate-900 border-2 border-indigo-500/50 ring-4 ring-slate-950 animate-pulse" aria-hidden="true"></div>
+                  <div className="bg-slate-900/30 rounded-xl border-l-4 border-l-slate-700 border border-dashed border-slate-800 p-5" role="status" aria-live="polite">
+                    <div className="flex items-center text-slate-500 text-xs font-bold uppercase tracking-wider mb-4">
+                      <Loader2 className="w-3 h-3 mr-1.5 animate-spin" aria-hidden="true" />
+                      {visibleSegments.length === 0 ? 'Writing hook...' : `Writing segment ${visibleSegments.length + 1}...`}
+                    </div>
+                    <div className="space-y-2 animate-pulse" aria-hidden="true">
+                      <div className="h-3 bg-slate-800 rounded w-11/12"></div>
+                      <div className="h-3 bg-slate-800 rounded w-8/12"></div>
+                      <div className="h-2 bg-slate-800/60 rounded w-6/12 mt-4"></div>
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
           <div className="mt-8 text-center text-slate-500 text-xs font-mono">
              TOTAL DURATION: {currentDuration}s • OPTIMIZED FOR RETENTION
+             {script.timingRepairs && script.timingRepairs.length > 0 && (
+               <>
+                 {' • '}
+                 <button
+                   onClick={() => setShowRepairs(!showRepairs)}
+                   className="inline-flex items-center text-amber-400 hover:text-amber-300 transition-colors focus:outline-none focus:ring-2 focus:ring-amber-500 rounded"
+                   aria-expanded={showRepairs}
+                   aria-controls="timing-repairs"
+                 >
+                   <Wrench className="w-3 h-3 mr-1" aria-hidden="true" />
+                   {script.timingRepairs.length} TIMING {script.timingRepairs.length === 1 ? 'FIX' : 'FIXES'}
+                 </button>
+               </>
+             )}
+             {!isStreaming && currentPrompt && (
+               <>
+                 {' • '}
+                 <button
+                   onClick={() => setShowPrompt(!showPrompt)}
+                   className="inline-flex items-center text-slate-400 hover:text-slate-200 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded"
+                   aria-expanded={showPrompt}
+                   aria-controls="prompt-record"
+                 >
+                   <FileCode2 className="w-3 h-3 mr-1" aria-hidden="true" />
+                   PROMPT: {describeTemplateRef('script', currentPrompt.script).toUpperCase()}
+                 </button>
+               </>
+             )}
           </div>
+
+          {showRepairs && script.timingRepairs && script.timingRepairs.length > 0 && (
+            <ul id="timing-repairs" className="mt-3 mx-auto max-w-md space-y-1 text-xs text-amber-300/80 bg-amber-500/5 border border-amber-500/20 rounded-lg p-3 animate-in fade-in">
+              {script.timingRepairs.map((repair, idx) => (
+                <li key={idx} className="flex items-start">
+                  <span className="text-amber-500 mr-2">•</span>
+                  {repair.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {showPrompt && !isStreaming && currentPrompt && (
+            <div id="prompt-record" className="mt-3 space-y-3 text-xs bg-slate-900/50 border border-slate-800 rounded-lg p-4 animate-in fade-in">
+              <div>
+                <h4 className="font-bold uppercase text-slate-500 mb-1">Persona • {describeTemplateRef('system', currentPrompt.system)}</h4>
+                <pre className="whitespace-pre-wrap font-mono text-slate-400">{currentPrompt.systemInstruction}</pre>
+              </div>
+              <div>
+                <h4 className="font-bold uppercase text-slate-500 mb-1">Prompt • {describeTemplateRef('script', currentPrompt.script)}</h4>
+                <pre className="whitespace-pre-wrap font-mono text-slate-400 max-h-80 overflow-y-auto">{currentPrompt.prompt}</pre>
+              </div>
+            </div>
+          )}
         </div>
 
       </main>
 
+      <PromptTemplateEditor
+        isOpen={showPromptEditor}
+        onClose={() => setShowPromptEditor(false)}
+        previewRequest={{ topic, tone, duration, framework, platform, useSearch, language, brand }}
+      />
+
+      <FrameworkEditor
+        isOpen={showFrameworkEditor}
+        onClose={() => setShowFrameworkEditor(false)}
+        customFrameworks={customFrameworks}
+        onChange={handleFrameworksChange}
+        selectedId={framework.id}
+        onSelect={setFrameworkId}
+      />
+
+      <ToneEditor
+        isOpen={showToneEditor}
+        onClose={() => setShowToneEditor(false)}
+        customTones={customTones}
+        onChange={handleTonesChange}
+        selectedId={tone}
+        onSelect={setTone}
+      />
+
+      <BrandProfileEditor
+        isOpen={showBrandEditor}
+        onClose={() => setShowBrandEditor(false)}
+        profiles={brandProfiles}
+        onChange={handleBrandProfilesChange}
+        selectedId={brand?.id}
+        onSelect={setBrandId}
+      />
+
+      <HookLab
+        isOpen={showHookLab}
+        onClose={() => setShowHookLab(false)}
+        script={script}
+        tone={tone}
+        platform={platform}
+        brand={brand}
+        voiceProfile={voiceProfile}
+        onApply={handleApplyHook}
+      />
+
+      <BatchPanel
+        isOpen={showBatch}
+        onClose={() => setShowBatch(false)}
+        tone={tone}
+        duration={duration}
+        useSearch={useSearch}
+        platform={platform}
+        language={language}
+        framework={framework}
+        frameworks={frameworks}
+        brand={brand}
+        brandProfiles={brandProfiles}
+        onResult={saveBatchResult}
+        onOpenResult={openBatchResult}
+      />
+
       {/* History Side Panel */}
       {showHistory && (
         <div 
@@ -463,6 +1233,8 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        <UsagePanel usage={sessionUsage} onReset={handleResetUsage} />
+
         <div className="flex-1 overflow-y-auto p-4 space-y-3" role="list">
           {history.length === 0 ? (
             <div className="text-center py-10 text-slate-500">
@@ -471,50 +1243,92 @@ const App: React.FC = () => {
               <p className="text-sm">Generate your first script!</p>
             </div>
           ) : (
-            history.map((item) => (
-              <div 
-                key={item.id} 
-                role="listitem"
-                onClick={() => loadHistoryItem(item)}
-                onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') loadHistoryItem(item); }}
-                tabIndex={0}
-                className="group relative bg-slate-950 border border-slate-800 hover:border-indigo-500/50 rounded-xl p-4 cursor-pointer transition-all hover:shadow-md hover:shadow-indigo-500/10 active:scale-[0.98] focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                aria-label={`Load script: ${item.script.topic}`}
-              >
-                 <button 
-                   onClick={(e) => deleteHistoryItem(e, item.id)}
-                   className="absolute top-3 right-3 text-slate-600 hover:text-red-400 p-1 rounded hover:bg-red-500/10 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-all focus:outline-none focus:ring-2 focus:ring-red-500"
-                   aria-label={`Delete ${item.script.topic} from history`}
-                 >
-                   <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
-                 </button>
+            history.map((item) => {
+              const itemUsage = summarizeUsage(mergeUsage(item.script.usage, item.usage));
+              const itemBrand = findBrandProfile(item.brandId, brandProfiles);
+              return (
+                <div
+                  key={item.id}
+                  role="listitem"
+                  onClick={() => loadHistoryItem(item)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') loadHistoryItem(item); }}
+                  tabIndex={0}
+                  className="group relative bg-slate-950 border border-slate-800 hover:border-indigo-500/50 rounded-xl p-4 cursor-pointer transition-all hover:shadow-md hover:shadow-indigo-500/10 active:scale-[0.98] focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  aria-label={`Load script: ${item.script.topic}`}
+                >
+                   <button
+                     onClick={(e) => deleteHistoryItem(e, item.id)}
+                     className="absolute top-3 right-3 text-slate-600 hover:text-red-400 p-1 rounded hover:bg-red-500/10 opacity-0 group-hover:opacity-100 group-focus:opacity-100 transition-all focus:outline-none focus:ring-2 focus:ring-red-500"
+                     aria-label={`Delete ${item.script.topic} from history`}
+                   >
+                     <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                   </button>
+
+                   <div className="flex items-start justify-between mb-2 pr-6">
+                     <h3 className="font-bold text-slate-200 line-clamp-1 group-hover:text-indigo-300 transition-colors">
+                       {item.script.topic}
+                     </h3>
+                   </div>
 
-                 <div className="flex items-start justify-between mb-2 pr-6">
-                   <h3 className="font-bold text-slate-200 line-clamp-1 group-hover:text-indigo-300 transition-colors">
-                     {item.script.topic}
-                   </h3>
-                 </div>
-
-                 <div className="flex items-center justify-between text-xs text-slate-500">
-                    <div className="flex items-center gap-3">
-                      <span className="flex items-center">
-                        <CalendarClock className="w-3 h-3 mr-1" aria-hidden="true" />
-                        {formatDate(item.timestamp)}
+                   <div className="flex items-center justify-between text-xs text-slate-500">
+                      <div className="flex items-center gap-3">
+                        <span className="flex items-center">
+                          <CalendarClock className="w-3 h-3 mr-1" aria-hidden="true" />
+                          {formatDate(item.timestamp)}
+                        </span>
+                      </div>
+                      <span className="flex items-center gap-2">
+                        {itemUsage.calls > 0 && (
+                          <span
+                            className="font-mono text-amber-300/80"
+                            title={`${itemUsage.calls} model ${itemUsage.calls === 1 ? 'call' : 'calls'}, ${itemUsage.inputTokens + itemUsage.outputTokens} tokens`}
+                          >
+                            {formatCost(itemUsage.costUsd)}
+                          </span>
+                        )}
+                        <ChevronRight className="w-3.5 h-3.5 text-slate-700 group-hover:text-indigo-500 transition-colors" aria-hidden="true" />
                       </span>
-                    </div>
-                    <ChevronRight className="w-3.5 h-3.5 text-slate-700 group-hover:text-indigo-500 transition-colors" aria-hidden="true" />
-                 </div>
+                   </div>
                  
-                 <div className="mt-3 flex items-center gap-2">
-                    <span className="text-[10px] font-bold uppercase tracking-wider bg-slate-900 text-slate-400 px-2 py-0.5 rounded border border-slate-800">
-                      {item.duration}s
-                    </span>
-                    <span className="text-[10px] font-bold uppercase tracking-wider bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded truncate max-w-[120px]">
-                      {item.tone}
-                    </span>
-                 </div>
-              </div>
-            ))
+                   <div className="mt-3 flex items-center gap-2">
+                      <span className="text-[10px] font-bold uppercase tracking-wider bg-slate-900 text-slate-400 px-2 py-0.5 rounded border border-slate-800">
+                        {item.duration}s
+                      </span>
+                      {item.platform && (
+                        <span className="text-[10px] font-bold uppercase tracking-wider bg-sky-500/10 text-sky-400 px-2 py-0.5 rounded">
+                          {item.platform}
+                        </span>
+                      )}
+                      <span className="text-[10px] font-bold uppercase tracking-wider bg-indigo-500/10 text-indigo-400 px-2 py-0.5 rounded truncate max-w-[120px]">
+                        {getToneName(item.tone, item.script.customTone)}
+                      </span>
+                      {item.script.language && item.script.language !== Language.ENGLISH && (
+                        <span
+                          className="text-[10px] font-bold uppercase tracking-wider bg-emerald-500/10 text-emerald-400 px-2 py-0.5 rounded"
+                          title={item.translatedFromId ? `${item.script.language} translation` : item.script.language}
+                        >
+                          {getLanguageProfile(item.script.language).code.split('-')[0]}{item.translatedFromId ? ' • Translated' : ''}
+                        </span>
+                      )}
+                      {item.batchId && (
+                        <span className="text-[10px] font-bold uppercase tracking-wider bg-slate-900 text-slate-500 px-2 py-0.5 rounded border border-slate-800">
+                          Batch
+                        </span>
+                      )}
+                      {item.frameworkId && item.frameworkId !== DEFAULT_FRAMEWORK.id && (
+                        <span className="text-[10px] font-bold uppercase tracking-wider bg-violet-500/10 text-violet-400 px-2 py-0.5 rounded truncate max-w-[100px]">
+                          {findFramework(item.frameworkId, frameworks).name}
+                        </span>
+                      )}
+                      {itemBrand && (
+                        <span className="text-[10px] font-bold uppercase tracking-wider bg-rose-500/10 text-rose-400 px-2 py-0.5 rounded truncate max-w-[100px]">
+                          {itemBrand.name}
+                        </span>
+                      )}
+                   </div>
+                </div>
+              );
+            })
           )}
         </div>
       </aside>
@@ -0,0 +1,375 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { BatchItem, BatchJob, GeneratedScript, GenerationRequest, PromptRecord, StoryFramework, ToneId, Platform, Language, BrandProfile } from '../types';
+import { Layers, X, Upload, Play, Square, RotateCcw, Loader2, CheckCircle2, AlertTriangle, Clock, Trash2, ExternalLink, Globe } from 'lucide-react';
+import { generateScript } from '../services/scriptService';
+import { getErrorMessage } from '../services/errors';
+import { renderScriptPrompts } from '../services/promptService';
+import { findFramework } from '../services/frameworkService';
+import { findBrandProfile } from '../services/brandService';
+import { getToneName } from '../services/toneService';
+import { parseBatchInput, loadBatchJob, saveBatchJob, runConcurrently, createBatchId, BATCH_CONCURRENCY_OPTIONS } from '../services/batchService';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tone: ToneId;
+  duration: number;
+  useSearch: boolean;
+  platform: Platform;
+  language: Language;
+  framework: StoryFramework;
+  frameworks: StoryFramework[];
+  brand?: BrandProfile;
+  brandProfiles: BrandProfile[];
+  // Saves a finished script to history and returns the new entry's id
+  onResult: (script: GeneratedScript, item: BatchItem, job: BatchJob, prompt: PromptRecord) => string;
+  onOpenResult: (historyId: string) => void;
+}
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+  pending: 'text-slate-400 bg-slate-800',
+  running: 'text-indigo-300 bg-indigo-500/10',
+  done: 'text-emerald-400 bg-emerald-500/10',
+  failed: 'text-red-400 bg-red-500/10'
+};
+
+const StatusIcon: React.FC<{ status: BatchItem['status'] }> = ({ status }) => {
+  if (status === 'running') return <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />;
+  if (status === 'done') return <CheckCircle2 className="w-3 h-3" aria-hidden="true" />;
+  if (status === 'failed') return <AlertTriangle className="w-3 h-3" aria-hidden="true" />;
+  return <Clock className="w-3 h-3" aria-hidden="true" />;
+};
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ isOpen, onClose, tone, duration, useSearch, platform, language, framework, frameworks, brand, brandProfiles, onResult, onOpenResult }) => {
+  const [input, setInput] = useState('');
+  const [concurrency, setConcurrency] = useState(2);
+  const [job, setJob] = useState<BatchJob | null>(() => loadBatchJob());
+  const [isRunning, setIsRunning] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // The queue reads and writes through the ref so concurrent workers never claim the same item
+  const jobRef = useRef<BatchJob | null>(job);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const preview = useMemo(
+    () => parseBatchInput(input, { tone, duration, useSearch, platform }),
+    [input, tone, duration, useSearch, platform]
+  );
+
+  const commit = (next: BatchJob | null) => {
+    jobRef.current = next;
+    setJob(next);
+    saveBatchJob(next);
+  };
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    const current = jobRef.current;
+    if (!current) return;
+    commit({ ...current, items: current.items.map(item => item.id === id ? { ...item, ...changes } : item) });
+  };
+
+  const counts = useMemo(() => {
+    const items = job?.items || [];
+    return {
+      total: items.length,
+      done: items.filter(i => i.status === 'done').length,
+      failed: items.filter(i => i.status === 'failed').length,
+      pending: items.filter(i => i.status === 'pending').length
+    };
+  }, [job]);
+
+  const runItem = async (item: BatchItem, active: BatchJob, signal: AbortSignal) => {
+    updateItem(item.id, { status: 'running', attempts: item.attempts + 1, error: undefined });
+    try {
+      const request: GenerationRequest = {
+        topic: item.topic,
+        tone: item.tone,
+        duration: item.duration,
+        framework: findFramework(active.frameworkId, frameworks),
+        platform: active.platform,
+        useSearch: item.useSearch,
+        language: active.language,
+        brand: findBrandProfile(active.brandId, brandProfiles)
+      };
+      const prompts = renderScriptPrompts(request);
+      const script = await generateScript({ ...request, prompts }, undefined, signal);
+      // A cancelled run puts the item back in the queue instead of keeping a late result
+      if (signal.aborted) {
+        updateItem(item.id, { status: 'pending' });
+        return;
+      }
+      updateItem(item.id, { status: 'done', historyId: onResult(script, item, active, prompts) });
+    } catch (err) {
+      if (signal.aborted) {
+        updateItem(item.id, { status: 'pending' });
+        return;
+      }
+      console.error("Batch item error:", err);
+      updateItem(item.id, { status: 'failed', error: getErrorMessage(err) });
+    }
+  };
+
+  const runQueue = async () => {
+    const active = jobRef.current;
+    if (!active || isRunning) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runConcurrently(
+        active.concurrency,
+        () => {
+          const item = jobRef.current?.items.find(i => i.status === 'pending');
+          if (!item) return null;
+          updateItem(item.id, { status: 'running' });
+          return () => runItem(item, active, controller.signal);
+        },
+        () => controller.signal.aborted
+      );
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStart = () => {
+    if (preview.items.length === 0) return;
+    commit({
+      id: createBatchId('batch'),
+      createdAt: Date.now(),
+      frameworkId: framework.id,
+      platform,
+      language,
+      brandId: brand?.id,
+      concurrency,
+      items: preview.items
+    });
+    setInput('');
+    runQueue();
+  };
+
+  // Aborts the in-flight requests too; their items go back to pending for a later resume
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleRetry = (id: string) => {
+    updateItem(id, { status: 'pending', error: undefined });
+    if (!isRunning) runQueue();
+  };
+
+  const handleRetryFailed = () => {
+    const current = jobRef.current;
+    if (!current) return;
+    commit({ ...current, items: current.items.map(i => i.status === 'failed' ? { ...i, status: 'pending', error: undefined } : i) });
+    if (!isRunning) runQueue();
+  };
+
+  const handleClear = () => {
+    if (isRunning) return;
+    commit(null);
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setUploadError(null);
+
+    if (file.size > 1024 * 1024) { // 1MB limit
+      setUploadError("File too large. Please upload a CSV under 1MB.");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setInput(String(reader.result || ''));
+    reader.onerror = () => setUploadError("Failed to read the CSV file.");
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  if (!isOpen) return null;
+
+  const jobFramework = job ? findFramework(job.frameworkId, frameworks) : framework;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="batch-title"
+        className="fixed inset-x-4 top-8 bottom-8 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-[48rem] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl z-[70] flex flex-col overflow-hidden"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-slate-950/50">
+          <div>
+            <h2 id="batch-title" className="text-lg font-bold text-white flex items-center">
+              <Layers className="w-5 h-5 mr-2 text-indigo-400" aria-hidden="true" />
+              Batch Generation
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">One topic per line, or CSV with topic, tone, duration, search. Results are saved to history.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Close batch generation"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        {!job ? (
+          <div className="flex-1 overflow-y-auto p-5 space-y-4">
+            <label htmlFor="batch-input" className="sr-only">Batch topics</label>
+            <textarea
+              id="batch-input"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              rows={8}
+              placeholder={'Why we procrastinate\nThe 2-minute rule, Motivational, 30\n"Sleep, caffeine and focus", Authoritative, 60, yes'}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-sm text-slate-100 placeholder-slate-600 font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+
+            <div className="flex flex-wrap items-center gap-3">
+              <input ref={fileInputRef} type="file" accept=".csv,text/csv,text/plain" onChange={handleFileUpload} className="hidden" aria-hidden="true" />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-2 rounded-lg text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <Upload className="w-4 h-4" aria-hidden="true" />
+                Upload CSV
+              </button>
+              <label htmlFor="batch-concurrency" className="text-sm font-medium text-slate-300 ml-auto">Concurrency</label>
+              <select
+                id="batch-concurrency"
+                value={concurrency}
+                onChange={(e) => setConcurrency(Number(e.target.value))}
+                className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {BATCH_CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+              <button
+                onClick={handleStart}
+                disabled={preview.items.length === 0}
+                className="flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 text-white px-4 py-2 rounded-lg text-sm font-bold transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <Play className="w-4 h-4 fill-current" aria-hidden="true" />
+                Queue {preview.items.length || ''} {preview.items.length === 1 ? 'Script' : 'Scripts'}
+              </button>
+            </div>
+
+            <p className="text-xs text-slate-500">
+              Uses the {framework.name} framework for {platform}, written in {language}{brand ? `, following the ${brand.name} brand guide` : ''}. Rows without a tone or duration use {getToneName(tone)} and {duration}s.
+            </p>
+
+            {uploadError && (
+              <p role="alert" className="flex items-center text-xs text-red-400">
+                <AlertTriangle className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+                {uploadError}
+              </p>
+            )}
+
+            {preview.warnings.length > 0 && (
+              <ul className="text-xs text-amber-300/80 bg-amber-500/5 border border-amber-500/20 rounded-lg p-3 space-y-1">
+                {preview.warnings.map(w => <li key={w}>• {w}</li>)}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="p-5 border-b border-slate-800 space-y-3">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-sm text-slate-300" role="status" aria-live="polite">
+                  {counts.done}/{counts.total} done
+                  {counts.failed > 0 && <span className="text-red-400"> • {counts.failed} failed</span>}
+                  {!isRunning && counts.pending > 0 && <span className="text-amber-400"> • paused</span>}
+                </span>
+                <span className="text-xs text-slate-500">{jobFramework.name} • {job.platform} • {job.language ?? Language.ENGLISH} • {job.concurrency} at a time</span>
+                <div className="ml-auto flex items-center gap-2">
+                  {isRunning ? (
+                    <button
+                      onClick={handleCancel}
+                      className="flex items-center gap-1.5 bg-red-500/10 hover:bg-red-500/20 text-red-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+                    >
+                      <Square className="w-3 h-3 fill-current" aria-hidden="true" />
+                      Cancel
+                    </button>
+                  ) : counts.pending > 0 ? (
+                    <button
+                      onClick={runQueue}
+                      className="flex items-center gap-1.5 bg-indigo-500/10 hover:bg-indigo-500/20 text-indigo-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <Play className="w-3 h-3 fill-current" aria-hidden="true" />
+                      Resume
+                    </button>
+                  ) : null}
+                  {counts.failed > 0 && (
+                    <button
+                      onClick={handleRetryFailed}
+                      className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    >
+                      <RotateCcw className="w-3 h-3" aria-hidden="true" />
+                      Retry Failed
+                    </button>
+                  )}
+                  <button
+                    onClick={handleClear}
+                    disabled={isRunning}
+                    className="flex items-center gap-1.5 text-slate-500 hover:text-red-400 px-2 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50"
+                    aria-label="Clear batch"
+                  >
+                    <Trash2 className="w-3 h-3" aria-hidden="true" />
+                    {counts.pending > 0 || counts.failed > 0 ? 'Discard' : 'New Batch'}
+                  </button>
+                </div>
+              </div>
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden" aria-hidden="true">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${counts.total ? (counts.done / counts.total) * 100 : 0}%` }}></div>
+              </div>
+            </div>
+
+            <ul className="flex-1 overflow-y-auto p-5 space-y-2" aria-label="Batch items">
+              {job.items.map(item => (
+                <li key={item.id} className="bg-slate-950 border border-slate-800 rounded-lg p-3 flex items-center gap-3">
+                  <span className={`flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${STATUS_STYLES[item.status]}`}>
+                    <StatusIcon status={item.status} />
+                    {item.status}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm text-slate-200 truncate">{item.topic}</p>
+                    <p className="text-[11px] text-slate-500 flex items-center gap-1">
+                      {getToneName(item.tone)} • {item.duration}s
+                      {item.useSearch && <Globe className="w-3 h-3 text-emerald-400" aria-label="Deep research" />}
+                      {item.attempts > 1 && <span> • attempt {item.attempts}</span>}
+                    </p>
+                    {item.error && <p className="text-[11px] text-red-400 mt-0.5">{item.error}</p>}
+                  </div>
+                  {item.status === 'failed' && (
+                    <button
+                      onClick={() => handleRetry(item.id)}
+                      className="flex items-center gap-1 text-xs text-red-300 hover:text-white px-2 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+                      aria-label={`Retry ${item.topic}`}
+                    >
+                      <RotateCcw className="w-3 h-3" aria-hidden="true" />
+                      Retry
+                    </button>
+                  )}
+                  {item.status === 'done' && item.historyId && (
+                    <button
+                      onClick={() => onOpenResult(item.historyId!)}
+                      className="flex items-center gap-1 text-xs text-indigo-300 hover:text-white px-2 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      aria-label={`Open ${item.topic}`}
+                    >
+                      <ExternalLink className="w-3 h-3" aria-hidden="true" />
+                      Open
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </>
+  );
+};
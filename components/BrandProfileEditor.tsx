@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { BrandProfile } from '../types';
+import { createBrandProfile, MAX_PERSONA_LENGTH } from '../services/brandService';
+import { BadgeCheck, X, Trash2, Plus, Check } from 'lucide-react';
+
+interface BrandProfileEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profiles: BrandProfile[];
+  onChange: (profiles: BrandProfile[]) => void;
+  selectedId?: string;
+  onSelect: (id: string | undefined) => void;
+}
+
+type BrandListField = 'bannedWords' | 'disclaimers' | 'ctaPhrases';
+
+const LIST_FIELDS: { field: BrandListField; label: string; placeholder: string }[] = [
+  { field: 'bannedWords', label: 'Banned words', placeholder: 'guaranteed\ncure\nrisk-free' },
+  { field: 'disclaimers', label: 'Required disclaimers', placeholder: 'Not financial advice.' },
+  { field: 'ctaPhrases', label: 'Preferred CTA phrasing', placeholder: 'Follow for more\nLink in bio' }
+];
+
+export const BrandProfileEditor: React.FC<BrandProfileEditorProps> = ({ isOpen, onClose, profiles, onChange, selectedId, onSelect }) => {
+  const [editingId, setEditingId] = useState<string | undefined>(selectedId);
+
+  // Open on the profile that is currently selected in the form
+  useEffect(() => {
+    if (isOpen) setEditingId(selectedId ?? profiles[0]?.id);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const editing = profiles.find(b => b.id === editingId);
+
+  const updateEditing = (changes: Partial<BrandProfile>) => {
+    if (!editing) return;
+    onChange(profiles.map(b => b.id === editing.id ? { ...b, ...changes, updatedAt: Date.now() } : b));
+  };
+
+  const handleAdd = () => {
+    const profile = createBrandProfile();
+    onChange([...profiles, profile]);
+    setEditingId(profile.id);
+  };
+
+  const handleDelete = () => {
+    if (!editing || !window.confirm(`Delete the "${editing.name}" brand profile?`)) return;
+    const remaining = profiles.filter(b => b.id !== editing.id);
+    onChange(remaining);
+    if (selectedId === editing.id) onSelect(undefined);
+    setEditingId(remaining[0]?.id);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="brand-editor-title"
+        className="fixed inset-x-4 top-8 bottom-8 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-[52rem] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl z-[70] flex flex-col overflow-hidden"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-slate-950/50">
+          <h2 id="brand-editor-title" className="text-lg font-bold text-white flex items-center">
+            <BadgeCheck className="w-5 h-5 mr-2 text-indigo-400" aria-hidden="true" />
+            Brand Profiles
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Close brand profile editor"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col sm:flex-row overflow-hidden">
+          {/* Profile List */}
+          <div className="sm:w-56 border-b sm:border-b-0 sm:border-r border-slate-800 overflow-y-auto p-3 space-y-1">
+            <div role="listbox" aria-label="Brand profiles" className="space-y-1">
+              {profiles.map(b => (
+                <button
+                  key={b.id}
+                  role="option"
+                  aria-selected={b.id === editingId}
+                  onClick={() => setEditingId(b.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                    b.id === editingId ? 'bg-indigo-500/10 text-indigo-300' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+                  }`}
+                >
+                  {b.name || 'Untitled'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleAdd}
+              className="w-full flex items-center gap-1.5 text-indigo-400 hover:text-indigo-300 text-xs font-bold uppercase focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded px-3 py-2"
+            >
+              <Plus className="w-3.5 h-3.5" aria-hidden="true" />
+              New Profile
+            </button>
+          </div>
+
+          {/* Profile Detail */}
+          <div className="flex-1 overflow-y-auto p-5 space-y-4">
+            {!editing ? (
+              <p className="text-sm text-slate-500">
+                A brand profile sets the voice, banned words, required disclaimers, call-to-action phrasing and reading level.
+                The rules are sent with every generation and checked again on the finished script.
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => { onSelect(editing.id); onClose(); }}
+                    className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <Check className="w-3.5 h-3.5" aria-hidden="true" />
+                    {selectedId === editing.id ? 'Selected' : 'Use Profile'}
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center gap-1.5 text-slate-500 hover:text-red-400 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                    Delete
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem] gap-3">
+                  <div className="space-y-1">
+                    <label htmlFor="brand-name" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Name</label>
+                    <input
+                      id="brand-name"
+                      type="text"
+                      value={editing.name}
+                      onChange={(e) => updateEditing({ name: e.target.value })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label htmlFor="brand-grade" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Max grade</label>
+                    <input
+                      id="brand-grade"
+                      type="number"
+                      min={1}
+                      max={18}
+                      value={editing.maxReadingGrade ?? ''}
+                      placeholder="Any"
+                      onChange={(e) => updateEditing({ maxReadingGrade: e.target.value === '' ? undefined : Math.max(1, Math.min(18, Number(e.target.value) || 1)) })}
+                      className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm font-mono text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <label htmlFor="brand-persona" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">On-brand persona</label>
+                  <textarea
+                    id="brand-persona"
+                    value={editing.persona}
+                    onChange={(e) => updateEditing({ persona: e.target.value })}
+                    maxLength={MAX_PERSONA_LENGTH}
+                    rows={3}
+                    placeholder="a friendly personal-finance coach who explains without jargon and never hypes returns"
+                    className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {LIST_FIELDS.map(({ field, label, placeholder }) => (
+                    <div key={field} className="space-y-1">
+                      <label htmlFor={`brand-${field}`} className="block text-xs font-bold text-slate-500 uppercase tracking-wider">{label}</label>
+                      <textarea
+                        id={`brand-${field}`}
+                        value={editing[field].join('\n')}
+                        onChange={(e) => updateEditing({ [field]: e.target.value.split('\n') })}
+                        rows={5}
+                        placeholder={placeholder}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500">One entry per line. Blank lines are ignored.</p>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
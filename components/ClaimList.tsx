@@ -0,0 +1,83 @@
+import React from 'react';
+import { GeneratedScript } from '../types';
+import { ListChecks, ShieldCheck, ShieldQuestion, ShieldX } from 'lucide-react';
+import { ClaimStatus, ScriptClaim } from '../services/factCheck';
+
+interface ClaimListProps {
+  script: GeneratedScript;
+  claims: ScriptClaim[];
+}
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  supported: 'Supported',
+  'needs-review': 'Needs review',
+  unsupported: 'Unsupported'
+};
+
+const CLAIM_STYLES: Record<ClaimStatus, string> = {
+  supported: 'text-emerald-400 bg-emerald-500/10 border-emerald-500/20',
+  'needs-review': 'text-amber-300 bg-amber-500/10 border-amber-500/20',
+  unsupported: 'text-red-400 bg-red-500/10 border-red-500/20'
+};
+
+const CLAIM_ICONS: Record<ClaimStatus, React.ElementType> = {
+  supported: ShieldCheck,
+  'needs-review': ShieldQuestion,
+  unsupported: ShieldX
+};
+
+export const ClaimList: React.FC<ClaimListProps> = ({ script, claims }) => {
+  const count = (status: ClaimStatus) => claims.filter(c => c.status === status).length;
+
+  return (
+    <div className="mt-6">
+      <h4 className="text-xs font-bold uppercase text-slate-500 mb-2 flex items-center">
+        <ListChecks className="w-3 h-3 mr-1.5" aria-hidden="true" /> Claims
+        <span className="ml-2 normal-case font-normal text-slate-500">
+          {count('supported')} supported · {count('needs-review')} to review · {count('unsupported')} unsupported
+        </span>
+      </h4>
+      <ul className="space-y-2" aria-label="Factual claims">
+        {claims.map((claim, idx) => {
+          const Icon = CLAIM_ICONS[claim.status];
+          return (
+            <li key={idx} className="text-sm flex items-start gap-2">
+              <span
+                className={`flex-shrink-0 inline-flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border ${CLAIM_STYLES[claim.status]}`}
+                title={claim.note}
+              >
+                <Icon className="w-3 h-3" aria-hidden="true" />
+                {CLAIM_STATUS_LABELS[claim.status]}
+              </span>
+              <span className="text-slate-300">
+                <span className="text-[10px] font-bold uppercase text-slate-500 mr-1.5">{script.segments[claim.segmentIndex]?.label}</span>
+                “{claim.text}”
+                {claim.sourceIndices.map(index => {
+                  const source = script.sources?.[index];
+                  return source && (
+                    <a
+                      key={index}
+                      href={source.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={source.title}
+                      className="ml-1 text-xs font-mono text-indigo-400 hover:text-indigo-300 hover:underline"
+                    >
+                      [{index + 1}]
+                    </a>
+                  );
+                })}
+                {claim.keyFactIndex !== undefined && (
+                  <span className="ml-1 text-xs text-emerald-500" title={script.keyFacts?.[claim.keyFactIndex]}>
+                    Key fact {claim.keyFactIndex + 1}
+                  </span>
+                )}
+                <span className="block text-xs text-slate-500">{claim.note}</span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState, useEffect } from 'react';
+import { StoryFramework, FrameworkSection, FrameworkColor } from '../types';
+import { STORY_FRAMEWORKS, FRAMEWORK_COLORS, FRAMEWORK_COLOR_CLASSES, DEFAULT_FRAMEWORK } from '../constants';
+import { duplicateFramework, getPercentTotal } from '../services/frameworkService';
+import { LayoutList, X, Copy, Trash2, Plus, ArrowUp, ArrowDown, Lock, AlertTriangle, Check } from 'lucide-react';
+
+interface FrameworkEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customFrameworks: StoryFramework[];
+  onChange: (frameworks: StoryFramework[]) => void;
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+export const FrameworkEditor: React.FC<FrameworkEditorProps> = ({ isOpen, onClose, customFrameworks, onChange, selectedId, onSelect }) => {
+  const [editingId, setEditingId] = useState<string>(selectedId);
+
+  // Open on the framework that is currently selected in the form
+  useEffect(() => {
+    if (isOpen) setEditingId(selectedId);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const all = [...STORY_FRAMEWORKS, ...customFrameworks];
+  const editing = all.find(f => f.id === editingId) || DEFAULT_FRAMEWORK;
+  const readOnly = !!editing.builtIn;
+  const percentTotal = getPercentTotal(editing);
+
+  const updateEditing = (changes: Partial<StoryFramework>) => {
+    onChange(customFrameworks.map(f => f.id === editing.id ? { ...f, ...changes } : f));
+  };
+
+  const updateSection = (index: number, changes: Partial<FrameworkSection>) => {
+    updateEditing({ sections: editing.sections.map((s, i) => i === index ? { ...s, ...changes } : s) });
+  };
+
+  const moveSection = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= editing.sections.length) return;
+    const sections = [...editing.sections];
+    [sections[index], sections[target]] = [sections[target], sections[index]];
+    updateEditing({ sections });
+  };
+
+  const addSection = () => {
+    updateEditing({
+      sections: [...editing.sections, { label: `SECTION ${editing.sections.length + 1}`, percent: 10, description: '', color: 'slate' }]
+    });
+  };
+
+  const removeSection = (index: number) => {
+    if (editing.sections.length <= 1) return;
+    updateEditing({ sections: editing.sections.filter((_, i) => i !== index) });
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicateFramework(editing);
+    onChange([...customFrameworks, copy]);
+    setEditingId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the "${editing.name}" framework?`)) return;
+    onChange(customFrameworks.filter(f => f.id !== editing.id));
+    if (selectedId === editing.id) onSelect(DEFAULT_FRAMEWORK.id);
+    setEditingId(DEFAULT_FRAMEWORK.id);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="framework-editor-title"
+        className="fixed inset-x-4 top-8 bottom-8 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-[56rem] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl z-[70] flex flex-col overflow-hidden"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-slate-950/50">
+          <h2 id="framework-editor-title" className="text-lg font-bold text-white flex items-center">
+            <LayoutList className="w-5 h-5 mr-2 text-indigo-400" aria-hidden="true" />
+            Story Frameworks
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Close framework editor"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col sm:flex-row overflow-hidden">
+          {/* Framework List */}
+          <div className="sm:w-60 border-b sm:border-b-0 sm:border-r border-slate-800 overflow-y-auto p-3 space-y-1" role="listbox" aria-label="Frameworks">
+            {all.map(f => (
+              <button
+                key={f.id}
+                role="option"
+                aria-selected={f.id === editing.id}
+                onClick={() => setEditingId(f.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  f.id === editing.id ? 'bg-indigo-500/10 text-indigo-300' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+                }`}
+              >
+                <span className="flex items-center justify-between">
+                  <span className="truncate">{f.name}</span>
+                  {f.builtIn && <Lock className="w-3 h-3 shrink-0 text-slate-600" aria-label="Built-in" />}
+                </span>
+                <span className="flex gap-0.5 mt-1.5" aria-hidden="true">
+                  {f.sections.map((s, i) => (
+                    <span key={i} className={`h-1 rounded-full ${FRAMEWORK_COLOR_CLASSES[s.color].swatch}`} style={{ flex: s.percent }}></span>
+                  ))}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Framework Detail */}
+          <div className="flex-1 overflow-y-auto p-5 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => { onSelect(editing.id); onClose(); }}
+                className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <Check className="w-3.5 h-3.5" aria-hidden="true" />
+                {selectedId === editing.id ? 'Selected' : 'Use Framework'}
+              </button>
+              <button
+                onClick={handleDuplicate}
+                className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <Copy className="w-3.5 h-3.5" aria-hidden="true" />
+                Duplicate
+              </button>
+              {!readOnly && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center gap-1.5 text-slate-500 hover:text-red-400 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+                >
+                  <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                  Delete
+                </button>
+              )}
+              {readOnly && <span className="text-xs text-slate-500">Built-in frameworks are read-only. Duplicate one to customize it.</span>}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label htmlFor="framework-name" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Name</label>
+                <input
+                  id="framework-name"
+                  type="text"
+                  value={editing.name}
+                  onChange={(e) => updateEditing({ name: e.target.value })}
+                  disabled={readOnly}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="framework-description" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Description</label>
+                <input
+                  id="framework-description"
+                  type="text"
+                  value={editing.description}
+                  onChange={(e) => updateEditing({ description: e.target.value })}
+                  disabled={readOnly}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Sections</h3>
+              <span className={`text-xs font-mono flex items-center ${percentTotal === 100 ? 'text-slate-500' : 'text-amber-400'}`}>
+                {percentTotal !== 100 && <AlertTriangle className="w-3 h-3 mr-1" aria-hidden="true" />}
+                {percentTotal}% {percentTotal !== 100 && '(scaled to 100% when generating)'}
+              </span>
+            </div>
+
+            <ol className="space-y-3">
+              {editing.sections.map((section, index) => (
+                <li key={index} className={`bg-slate-950 border border-slate-800 border-l-4 rounded-lg p-3 ${FRAMEWORK_COLOR_CLASSES[section.color].border}`}>
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <input
+                      type="text"
+                      value={section.label}
+                      onChange={(e) => updateSection(index, { label: e.target.value.toUpperCase() })}
+                      disabled={readOnly}
+                      aria-label={`Section ${index + 1} label`}
+                      className="flex-1 min-w-[8rem] bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm font-bold uppercase text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-60"
+                    />
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={section.percent}
+                        onChange={(e) => updateSection(index, { percent: Math.max(1, Math.min(100, Number(e.target.value) || 1)) })}
+                        disabled={readOnly}
+                        aria-label={`Section ${index + 1} target percent`}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm font-mono text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-60"
+                      />
+                      <span className="text-xs text-slate-500">%</span>
+                    </div>
+                    <select
+                      value={section.color}
+                      onChange={(e) => updateSection(index, { color: e.target.value as FrameworkColor })}
+                      disabled={readOnly}
+                      aria-label={`Section ${index + 1} colour`}
+                      className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-60"
+                    >
+                      {FRAMEWORK_COLORS.map(c => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                    {!readOnly && (
+                      <div className="flex items-center">
+                        <button onClick={() => moveSection(index, -1)} disabled={index === 0} aria-label="Move section up" className="p-1 text-slate-500 hover:text-slate-200 disabled:opacity-30 focus:outline-none focus:ring-1 focus:ring-indigo-500 rounded">
+                          <ArrowUp className="w-3.5 h-3.5" aria-hidden="true" />
+                        </button>
+                        <button onClick={() => moveSection(index, 1)} disabled={index === editing.sections.length - 1} aria-label="Move section down" className="p-1 text-slate-500 hover:text-slate-200 disabled:opacity-30 focus:outline-none focus:ring-1 focus:ring-indigo-500 rounded">
+                          <ArrowDown className="w-3.5 h-3.5" aria-hidden="true" />
+                        </button>
+                        <button onClick={() => removeSection(index)} disabled={editing.sections.length <= 1} aria-label="Remove section" className="p-1 text-slate-500 hover:text-red-400 disabled:opacity-30 focus:outline-none focus:ring-1 focus:ring-red-500 rounded">
+                          <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <textarea
+                    value={section.description}
+                    onChange={(e) => updateSection(index, { description: e.target.value })}
+                    disabled={readOnly}
+                    rows={2}
+                    aria-label={`Section ${index + 1} description`}
+                    placeholder="What this section should do (sent to the model)"
+                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 resize-none disabled:opacity-60"
+                  />
+                </li>
+              ))}
+            </ol>
+
+            {!readOnly && (
+              <button
+                onClick={addSection}
+                className="flex items-center gap-1.5 text-indigo-400 hover:text-indigo-300 text-xs font-bold uppercase focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded px-2 py-1"
+              >
+                <Plus className="w-3.5 h-3.5" aria-hidden="true" />
+                Add Section
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,312 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { GeneratedScript, ToneId, VoiceProfile, SegmentRewrite, BrandProfile, Platform } from '../types';
+import { FlaskConical, X, Loader2, Play, Square, Check, Trophy, AlertTriangle } from 'lucide-react';
+import { generateHookVariants, generateSpeech } from '../services/scriptService';
+import { scoreHook, HookScoreBreakdown } from '../services/hookScoring';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { getAudioContext, claimPlayback, releasePlayback, decodeSpeech } from '../services/audioUtils';
+import { getScriptLanguage } from '../services/languageService';
+
+interface HookLabProps {
+  isOpen: boolean;
+  onClose: () => void;
+  script: GeneratedScript;
+  tone: ToneId;
+  platform: Platform;
+  brand?: BrandProfile;
+  voiceProfile?: VoiceProfile | null;
+  onApply: (hook: SegmentRewrite) => void;
+}
+
+const BREAKDOWN_LABELS: Record<keyof HookScoreBreakdown, string> = {
+  pacing: 'Pacing',
+  numbers: 'Numbers',
+  secondPerson: '"You"',
+  curiosityGap: 'Curiosity',
+  negation: 'Negation'
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 70) return 'text-emerald-400 bg-emerald-500/10';
+  if (score >= 45) return 'text-amber-400 bg-amber-500/10';
+  return 'text-rose-400 bg-rose-500/10';
+};
+
+export const HookLab: React.FC<HookLabProps> = ({ isOpen, onClose, script, tone, platform, brand, voiceProfile, onApply }) => {
+  const [count, setCount] = useState(3);
+  const [variants, setVariants] = useState<SegmentRewrite[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [playingText, setPlayingText] = useState<string | null>(null);
+  const [loadingText, setLoadingText] = useState<string | null>(null);
+
+  const audioCacheRef = useRef<Map<string, AudioBuffer>>(new Map());
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
+  const previewAbortRef = useRef<AbortController | null>(null);
+
+  const hook = script.segments[0];
+  const hookSeconds = hook ? hook.endTime - hook.startTime : 0;
+  const language = getScriptLanguage(script);
+
+  // The current hook is always included as the baseline to beat
+  const ranked = useMemo(() => {
+    if (!hook) return [];
+    const candidates = [{ text: hook.text, visual: hook.visual, isCurrent: true }, ...variants.map(v => ({ ...v, isCurrent: false }))];
+    return candidates
+      .map(c => ({ ...c, score: scoreHook(c.text, hookSeconds, language) }))
+      .sort((a, b) => b.score.total - a.score.total);
+  }, [hook, variants, hookSeconds, language]);
+
+  // Variants belong to a specific script; start fresh when it changes
+  useEffect(() => {
+    cancelGenerate();
+    setVariants([]);
+    setError(null);
+    audioCacheRef.current.clear();
+  }, [script.topic, hook?.text]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      cancelGenerate();
+      stopPreview();
+    }
+  }, [isOpen]);
+
+  const stopPreview = () => {
+    previewAbortRef.current?.abort();
+    previewAbortRef.current = null;
+    setLoadingText(null);
+    if (sourceRef.current) {
+      try { sourceRef.current.stop(); } catch (e) {}
+      sourceRef.current = null;
+    }
+    setPlayingText(null);
+    releasePlayback(stopPreview);
+  };
+
+  const handleGenerate = async () => {
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const result = await generateHookVariants(script, tone, platform, count, brand, controller.signal);
+      if (!controller.signal.aborted) setVariants(result);
+    } catch (err) {
+      if (isCancelled(err)) return;
+      console.error("Hook lab error:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      if (generateAbortRef.current === controller) {
+        generateAbortRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  };
+
+  const cancelGenerate = () => {
+    generateAbortRef.current?.abort();
+    generateAbortRef.current = null;
+    setIsGenerating(false);
+  };
+
+  const togglePreview = async (text: string) => {
+    // Clicking a preview that is still loading cancels it
+    if (playingText === text || loadingText === text) {
+      stopPreview();
+      return;
+    }
+    stopPreview();
+    claimPlayback(stopPreview);
+
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+
+    const controller = new AbortController();
+    previewAbortRef.current = controller;
+
+    try {
+      let buffer = audioCacheRef.current.get(text);
+      if (!buffer) {
+        setLoadingText(text);
+        const base64Audio = await generateSpeech(text, tone, voiceProfile?.voiceName, getScriptLanguage(script), undefined, controller.signal);
+        // Stopped, or another preview started, while this one was loading
+        if (previewAbortRef.current !== controller) return;
+        buffer = decodeSpeech(base64Audio, ctx);
+        audioCacheRef.current.set(text, buffer);
+      }
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => {
+        if (sourceRef.current === source) {
+          sourceRef.current = null;
+          setPlayingText(null);
+        }
+      };
+      source.start();
+      sourceRef.current = source;
+      setPlayingText(text);
+    } catch (err) {
+      if (isCancelled(err)) return;
+      console.error("Hook preview error:", err);
+      setError(getErrorMessage(err));
+      releasePlayback(stopPreview);
+    } finally {
+      if (previewAbortRef.current === controller) {
+        previewAbortRef.current = null;
+        setLoadingText(null);
+      }
+    }
+  };
+
+  const handleApply = (candidate: SegmentRewrite) => {
+    stopPreview();
+    onApply({ text: candidate.text, visual: candidate.visual });
+    onClose();
+  };
+
+  if (!isOpen || !hook) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="hook-lab-title"
+        className="fixed inset-x-4 top-8 bottom-8 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-[56rem] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl z-[70] flex flex-col overflow-hidden"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-slate-950/50">
+          <div>
+            <h2 id="hook-lab-title" className="text-lg font-bold text-white flex items-center">
+              <FlaskConical className="w-5 h-5 mr-2 text-rose-400" aria-hidden="true" />
+              Hook Lab
+            </h2>
+            <p className="text-xs text-slate-500 mt-1">A/B alternative hooks for a {hookSeconds}s window, scored locally.</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Close hook lab"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="p-5 border-b border-slate-800 flex flex-wrap items-center gap-3">
+          <label htmlFor="hook-count" className="text-sm font-medium text-slate-300">Variants</label>
+          <select
+            id="hook-count"
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            disabled={isGenerating}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {[3, 4, 5, 6].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="flex items-center gap-2 bg-gradient-to-r from-rose-600 to-violet-600 hover:from-rose-500 hover:to-violet-500 disabled:from-slate-800 disabled:to-slate-800 text-white px-4 py-2 rounded-lg text-sm font-bold transition-all focus:outline-none focus:ring-2 focus:ring-rose-500"
+          >
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" /> : <FlaskConical className="w-4 h-4" aria-hidden="true" />}
+            {isGenerating ? 'Generating...' : variants.length ? 'Regenerate Hooks' : 'Generate Hooks'}
+          </button>
+          {isGenerating && (
+            <button
+              onClick={cancelGenerate}
+              className="flex items-center gap-1.5 bg-red-500/10 hover:bg-red-500/20 text-red-300 px-3 py-2 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+            >
+              <X className="w-3.5 h-3.5" aria-hidden="true" />
+              Cancel
+            </button>
+          )}
+          {error && (
+            <span role="alert" className="flex items-center text-xs text-red-400">
+              <AlertTriangle className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+              {error}
+            </span>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4" role="list" aria-label="Ranked hooks">
+            {ranked.map((candidate, rank) => (
+              <div
+                key={`${candidate.isCurrent ? 'current' : 'variant'}-${candidate.text}`}
+                role="listitem"
+                className={`bg-slate-950 border rounded-xl p-4 flex flex-col ${rank === 0 ? 'border-emerald-500/40' : 'border-slate-800'}`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-mono text-slate-500">#{rank + 1}</span>
+                    {rank === 0 && <Trophy className="w-3.5 h-3.5 text-emerald-400" aria-label="Top ranked" />}
+                    {candidate.isCurrent && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider bg-slate-800 text-slate-400 px-2 py-0.5 rounded">Current</span>
+                    )}
+                  </div>
+                  <span className={`text-xs font-bold font-mono px-2 py-1 rounded ${getScoreColor(candidate.score.total)}`}>
+                    {candidate.score.total}/100
+                  </span>
+                </div>
+
+                <p className="text-slate-200 font-medium leading-relaxed mb-3">"{candidate.text}"</p>
+
+                <div className="grid grid-cols-5 gap-1 mb-3" aria-label="Score breakdown">
+                  {(Object.keys(BREAKDOWN_LABELS) as (keyof HookScoreBreakdown)[]).map(key => (
+                    <div key={key} className="text-center">
+                      <div className={`text-[10px] font-bold font-mono ${candidate.score.breakdown[key] > 0 ? 'text-slate-300' : 'text-slate-600'}`}>
+                        {candidate.score.breakdown[key]}
+                      </div>
+                      <div className="text-[9px] uppercase tracking-wide text-slate-500">{BREAKDOWN_LABELS[key]}</div>
+                    </div>
+                  ))}
+                </div>
+
+                {candidate.score.notes.length > 0 && (
+                  <ul className="text-[11px] text-slate-500 mb-3 space-y-0.5">
+                    {candidate.score.notes.map(note => <li key={note}>• {note}</li>)}
+                  </ul>
+                )}
+
+                <div className="mt-auto flex items-center gap-2">
+                  <button
+                    onClick={() => togglePreview(candidate.text)}
+                    disabled={loadingText !== null && loadingText !== candidate.text}
+                    className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                    aria-label={playingText === candidate.text ? 'Stop hook preview' : 'Preview hook audio'}
+                  >
+                    {loadingText === candidate.text ? (
+                      <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />
+                    ) : playingText === candidate.text ? (
+                      <Square className="w-3 h-3 fill-current" aria-hidden="true" />
+                    ) : (
+                      <Play className="w-3 h-3 fill-current" aria-hidden="true" />
+                    )}
+                    {playingText === candidate.text ? 'Stop' : 'Preview'}
+                  </button>
+                  {!candidate.isCurrent && (
+                    <button
+                      onClick={() => handleApply(candidate)}
+                      className="flex items-center gap-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    >
+                      <Check className="w-3 h-3" aria-hidden="true" />
+                      Use this hook
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {variants.length === 0 && !isGenerating && (
+            <p className="text-center text-sm text-slate-500 mt-6">Generate variants to compare them against the current hook.</p>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
@@ -1,19 +1,38 @@
 import React, { useRef, useState } from 'react';
-import { Tone, VoiceProfile } from '../types';
-import { TONES, SCRIPT_TEMPLATES } from '../constants';
-import { Sparkles, Zap, Clock, Mic, Upload, Loader2, CheckCircle, Globe, Smartphone, Dumbbell, BookHeart, TrendingUp, Utensils } from 'lucide-react';
-import { analyzeVoiceStyle } from '../services/geminiService';
+import { ToneId, ToneProfile, VoiceProfile, StoryFramework, Platform, Language, BrandProfile } from '../types';
+import { TONES, SCRIPT_TEMPLATES, FRAMEWORK_COLOR_CLASSES, PLATFORMS, LANGUAGES } from '../constants';
+import { getPlatformProfile, clampDuration } from '../services/platformService';
+import { Sparkles, Zap, Clock, Mic, Upload, Loader2, CheckCircle, Globe, Smartphone, Dumbbell, BookHeart, TrendingUp, Utensils, LayoutList, Settings2, X, ShieldAlert, Languages, BadgeCheck } from 'lucide-react';
+import { analyzeVoiceStyle } from '../services/scriptService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { detectInstructionLikeInput, MAX_TOPIC_LENGTH } from '../services/inputSafety';
+import { describeLanguage } from '../services/languageService';
 
 interface InputFormProps {
   topic: string;
   setTopic: (t: string) => void;
-  tone: Tone;
-  setTone: (t: Tone) => void;
+  tone: ToneId;
+  setTone: (t: ToneId) => void;
+  customTones: ToneProfile[];
+  onManageTones: () => void;
   duration: number;
   setDuration: (d: number) => void;
   useSearch: boolean;
   setUseSearch: (s: boolean) => void;
+  platform: Platform;
+  setPlatform: (p: Platform) => void;
+  language: Language;
+  setLanguage: (l: Language) => void;
+  frameworks: StoryFramework[];
+  framework: StoryFramework;
+  setFrameworkId: (id: string) => void;
+  onManageFrameworks: () => void;
+  brandProfiles: BrandProfile[];
+  brand?: BrandProfile;
+  setBrandId: (id: string | undefined) => void;
+  onManageBrands: () => void;
   onGenerate: () => void;
+  onCancel: () => void;
   isLoading: boolean;
   voiceProfile: VoiceProfile | null;
   setVoiceProfile: (vp: VoiceProfile | null) => void;
@@ -36,11 +55,26 @@ export const InputForm: React.FC<InputFormProps> = ({
   setTopic,
   tone,
   setTone,
+  customTones,
+  onManageTones,
   duration,
   setDuration,
   useSearch,
   setUseSearch,
+  platform,
+  setPlatform,
+  language,
+  setLanguage,
+  frameworks,
+  framework,
+  setFrameworkId,
+  onManageFrameworks,
+  brandProfiles,
+  brand,
+  setBrandId,
+  onManageBrands,
   onGenerate,
+  onCancel,
   isLoading,
   voiceProfile,
   setVoiceProfile
@@ -48,6 +82,9 @@ export const InputForm: React.FC<InputFormProps> = ({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isAnalyzingVoice, setIsAnalyzingVoice] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const voiceAbortRef = useRef<AbortController | null>(null);
+  const topicWarnings = detectInstructionLikeInput(topic);
+  const platformProfile = getPlatformProfile(platform);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -60,21 +97,39 @@ export const InputForm: React.FC<InputFormProps> = ({
 
     setUploadError(null);
     setIsAnalyzingVoice(true);
+    const controller = new AbortController();
+    voiceAbortRef.current = controller;
 
-    try {
-      const reader = new FileReader();
-      reader.onload = async () => {
+    // Errors are handled inside onload, since the analysis runs after the file has been read
+    const reader = new FileReader();
+    reader.onload = async () => {
+      try {
         const base64 = (reader.result as string).split(',')[1];
-        const profile = await analyzeVoiceStyle(base64);
-        setVoiceProfile(profile);
-        setIsAnalyzingVoice(false);
-      };
-      reader.readAsDataURL(file);
-    } catch (err) {
-      console.error(err);
-      setUploadError("Failed to analyze voice sample.");
+        const profile = await analyzeVoiceStyle(base64, controller.signal);
+        if (!controller.signal.aborted) setVoiceProfile(profile);
+      } catch (err) {
+        if (isCancelled(err)) return;
+        console.error(err);
+        setUploadError(`Failed to analyze voice sample. ${getErrorMessage(err)}`);
+      } finally {
+        if (voiceAbortRef.current === controller) {
+          voiceAbortRef.current = null;
+          setIsAnalyzingVoice(false);
+        }
+      }
+    };
+    reader.onerror = () => {
+      setUploadError("Failed to read the audio file.");
       setIsAnalyzingVoice(false);
-    }
+    };
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  const cancelVoiceAnalysis = () => {
+    voiceAbortRef.current?.abort();
+    voiceAbortRef.current = null;
+    setIsAnalyzingVoice(false);
   };
 
   const handleUploadKeyDown = (e: React.KeyboardEvent) => {
@@ -87,7 +142,7 @@ export const InputForm: React.FC<InputFormProps> = ({
   const applyTemplate = (template: typeof SCRIPT_TEMPLATES[0]) => {
     setTopic(template.topic);
     setTone(template.tone);
-    setDuration(template.duration);
+    setDuration(clampDuration(platform, template.duration));
   };
 
   return (
@@ -115,27 +170,165 @@ export const InputForm: React.FC<InputFormProps> = ({
         
         {/* Topic Input */}
         <div className="md:col-span-2 space-y-2">
-          <label htmlFor="topic-input" className="block text-sm font-medium text-slate-300">Topic</label>
+          <div className="flex items-center justify-between">
+            <label htmlFor="topic-input" className="block text-sm font-medium text-slate-300">Topic</label>
+            {topic.length > MAX_TOPIC_LENGTH * 0.8 && (
+              <span className="text-xs text-slate-500 font-mono">{topic.length}/{MAX_TOPIC_LENGTH}</span>
+            )}
+          </div>
           <input
             id="topic-input"
             type="text"
             value={topic}
             onChange={(e) => setTopic(e.target.value)}
             placeholder="e.g., Anxiety Relief, Productivity Hack, Coding Tips"
+            maxLength={MAX_TOPIC_LENGTH}
             className="w-full bg-slate-950 border border-slate-700 rounded-lg px-4 py-3 text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
             disabled={isLoading}
             aria-required="true"
+            aria-describedby={topicWarnings.length > 0 ? 'topic-warning' : undefined}
           />
+          {topicWarnings.length > 0 && (
+            <div id="topic-warning" role="status" className="flex items-start gap-2 text-xs text-amber-300 bg-amber-500/10 border border-amber-500/30 rounded-lg px-3 py-2">
+              <ShieldAlert className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">This looks like instructions rather than a subject. It will be sent as a topic only.</p>
+                <p className="text-amber-300/70">{topicWarnings.join(' · ')}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Platform */}
+        <div className="md:col-span-2 space-y-2">
+          <span id="platform-label" className="block text-sm font-medium text-slate-300">Platform</span>
+          <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-labelledby="platform-label">
+            {PLATFORMS.map((p) => (
+              <button
+                key={p}
+                role="radio"
+                aria-checked={platform === p}
+                onClick={() => setPlatform(p)}
+                disabled={isLoading}
+                className={`px-3 py-2.5 rounded-lg border text-sm font-medium transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50 ${
+                  platform === p
+                    ? 'bg-indigo-500/10 border-indigo-500/50 text-indigo-300'
+                    : 'bg-slate-950 border-slate-700 text-slate-400 hover:bg-slate-900'
+                }`}
+              >
+                {p}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            {platformProfile.minDuration}–{platformProfile.maxDuration}s • CTA: {platformProfile.ctaExamples.join(' / ')}
+          </p>
+        </div>
+
+        {/* Output Language */}
+        <div className="md:col-span-2 space-y-2">
+          <label htmlFor="language-select" className="block text-sm font-medium text-slate-300">Output Language</label>
+          <div className="relative">
+            <Languages className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" aria-hidden="true" />
+            <select
+              id="language-select"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as Language)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-9 pr-4 py-3 text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent appearance-none transition-all"
+              disabled={isLoading}
+            >
+              {LANGUAGES.map((l) => (
+                <option key={l} value={l}>{describeLanguage(l)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Story Framework */}
+        <div className="md:col-span-2 space-y-2">
+          <div className="flex items-center justify-between">
+            <label htmlFor="framework-select" className="block text-sm font-medium text-slate-300">Story Framework</label>
+            <button
+              onClick={onManageFrameworks}
+              disabled={isLoading}
+              className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-400 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded px-1 disabled:opacity-50"
+            >
+              <Settings2 className="w-3 h-3" aria-hidden="true" />
+              Manage
+            </button>
+          </div>
+          <div className="relative">
+            <LayoutList className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" aria-hidden="true" />
+            <select
+              id="framework-select"
+              value={framework.id}
+              onChange={(e) => setFrameworkId(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-9 pr-4 py-3 text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent appearance-none transition-all"
+              disabled={isLoading}
+              aria-describedby="framework-sections"
+            >
+              {frameworks.map((f) => (
+                <option key={f.id} value={f.id}>{f.name}</option>
+              ))}
+            </select>
+          </div>
+          <div id="framework-sections" className="flex flex-wrap gap-1.5" aria-label={`Sections: ${framework.sections.map(s => s.label).join(', ')}`}>
+            {framework.sections.map((s, i) => (
+              <span key={i} className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded ${FRAMEWORK_COLOR_CLASSES[s.color].badge}`}>
+                {s.label} {s.percent}%
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Brand Profile */}
+        <div className="md:col-span-2 space-y-2">
+          <div className="flex items-center justify-between">
+            <label htmlFor="brand-select" className="block text-sm font-medium text-slate-300">Brand Profile</label>
+            <button
+              onClick={onManageBrands}
+              disabled={isLoading}
+              className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-400 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded px-1 disabled:opacity-50"
+            >
+              <Settings2 className="w-3 h-3" aria-hidden="true" />
+              Manage
+            </button>
+          </div>
+          <div className="relative">
+            <BadgeCheck className="w-4 h-4 text-slate-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" aria-hidden="true" />
+            <select
+              id="brand-select"
+              value={brand?.id ?? ''}
+              onChange={(e) => setBrandId(e.target.value || undefined)}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-9 pr-4 py-3 text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent appearance-none transition-all"
+              disabled={isLoading}
+            >
+              <option value="">None</option>
+              {brandProfiles.map((b) => (
+                <option key={b.id} value={b.id}>{b.name}</option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Tone Select & Voice Clone */}
         <div className="space-y-4">
           <div className="space-y-2">
-            <label htmlFor="tone-select" className="block text-sm font-medium text-slate-300">Tone & Style</label>
+            <div className="flex items-center justify-between">
+              <label htmlFor="tone-select" className="block text-sm font-medium text-slate-300">Tone & Style</label>
+              <button
+                onClick={onManageTones}
+                disabled={isLoading}
+                className="flex items-center gap-1 text-xs text-slate-500 hover:text-indigo-400 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded px-1 disabled:opacity-50"
+              >
+                <Settings2 className="w-3 h-3" aria-hidden="true" />
+                Manage
+              </button>
+            </div>
             <select
               id="tone-select"
               value={tone}
-              onChange={(e) => setTone(e.target.value as Tone)}
+              onChange={(e) => setTone(e.target.value as ToneId)}
               className={`w-full bg-slate-950 border rounded-lg px-4 py-3 text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent appearance-none transition-all ${
                 voiceProfile ? 'border-indigo-500/50 opacity-75' : 'border-slate-700'
               }`}
@@ -144,6 +337,13 @@ export const InputForm: React.FC<InputFormProps> = ({
               {TONES.map((t) => (
                 <option key={t} value={t}>{t}</option>
               ))}
+              {customTones.length > 0 && (
+                <optgroup label="Custom tones">
+                  {customTones.map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                </optgroup>
+              )}
             </select>
             {voiceProfile && (
                <div className="text-xs text-indigo-400 font-medium mt-1 flex items-center" role="status">
@@ -183,6 +383,14 @@ export const InputForm: React.FC<InputFormProps> = ({
               <div className="flex flex-col items-center justify-center p-3 h-[86px]" role="status" aria-live="polite">
                 <Loader2 className="w-5 h-5 text-indigo-500 animate-spin mb-2" aria-hidden="true" />
                 <span className="text-xs text-indigo-400 animate-pulse">Analyzing Voice Characteristics...</span>
+                <button
+                  onClick={cancelVoiceAnalysis}
+                  className="absolute top-2 right-2 flex items-center gap-1 text-[10px] bg-slate-800 text-slate-400 px-2 py-0.5 rounded hover:text-white focus:outline-none focus:ring-2 focus:ring-red-500"
+                  aria-label="Cancel voice analysis"
+                >
+                  <X className="w-3 h-3" aria-hidden="true" />
+                  Cancel
+                </button>
               </div>
             )}
 
@@ -235,15 +443,15 @@ export const InputForm: React.FC<InputFormProps> = ({
               <input
                 id="duration-slider"
                 type="range"
-                min="30"
-                max="60"
+                min={platformProfile.minDuration}
+                max={platformProfile.maxDuration}
                 step="1"
                 value={duration}
                 onChange={(e) => setDuration(Number(e.target.value))}
                 className="w-full h-2 bg-slate-800 rounded-lg appearance-none cursor-pointer accent-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500/50"
                 disabled={isLoading}
-                aria-valuemin={30}
-                aria-valuemax={60}
+                aria-valuemin={platformProfile.minDuration}
+                aria-valuemax={platformProfile.maxDuration}
                 aria-valuenow={duration}
                 aria-valuetext={`${duration} seconds`}
               />
@@ -275,29 +483,41 @@ export const InputForm: React.FC<InputFormProps> = ({
       </div>
 
       {/* Generate Button */}
-      <button
-        onClick={onGenerate}
-        disabled={isLoading || !topic.trim() || isAnalyzingVoice}
-        className={`w-full mt-6 group relative flex items-center justify-center py-4 px-6 rounded-lg font-bold text-white overflow-hidden transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-slate-900 ${
-          isLoading || isAnalyzingVoice
-            ? 'bg-slate-800 cursor-not-allowed' 
-            : 'bg-gradient-to-r from-indigo-600 to-violet-600 hover:from-indigo-500 hover:to-violet-500 shadow-lg hover:shadow-indigo-500/25'
-        }`}
-        aria-busy={isLoading}
-      >
-        {isLoading ? (
-          <div className="flex items-center space-x-2" role="status">
-            <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" aria-hidden="true"></div>
-            <span>{useSearch ? "Researching & Constructing..." : "Constructing Viral Hook..."}</span>
-          </div>
-        ) : (
-          <div className="flex items-center space-x-2">
-            <Sparkles className="w-5 h-5 group-hover:rotate-12 transition-transform" aria-hidden="true" />
-            <span>Generate {duration}s Script</span>
-            <Zap className="w-4 h-4 opacity-50" aria-hidden="true" />
-          </div>
+      <div className="flex gap-3 mt-6">
+        <button
+          onClick={onGenerate}
+          disabled={isLoading || !topic.trim() || isAnalyzingVoice}
+          className={`flex-1 group relative flex items-center justify-center py-4 px-6 rounded-lg font-bold text-white overflow-hidden transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 focus:ring-offset-slate-900 ${
+            isLoading || isAnalyzingVoice
+              ? 'bg-slate-800 cursor-not-allowed'
+              : 'bg-gradient-to-r from-indigo-600 to-violet-600 hover:from-indigo-500 hover:to-violet-500 shadow-lg hover:shadow-indigo-500/25'
+          }`}
+          aria-busy={isLoading}
+        >
+          {isLoading ? (
+            <div className="flex items-center space-x-2" role="status">
+              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" aria-hidden="true"></div>
+              <span>{useSearch ? "Researching & Constructing..." : "Constructing Viral Hook..."}</span>
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <Sparkles className="w-5 h-5 group-hover:rotate-12 transition-transform" aria-hidden="true" />
+              <span>Generate {duration}s Script</span>
+              <Zap className="w-4 h-4 opacity-50" aria-hidden="true" />
+            </div>
+          )}
+        </button>
+        {isLoading && (
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-2 px-5 rounded-lg font-bold text-red-300 bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+            aria-label="Cancel generation"
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+            Cancel
+          </button>
         )}
-      </button>
+      </div>
     </div>
   );
 };
\ No newline at end of file
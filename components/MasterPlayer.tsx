@@ -0,0 +1,424 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { GeneratedScript, ToneId, VoiceProfile, Language, WordTiming } from '../types';
+import { Play, Pause, Square, Loader2, Music, AlertTriangle, X, ListVideo, Download } from 'lucide-react';
+import { getAudioContext, claimPlayback, releasePlayback } from '../services/audioUtils';
+import { playProceduralAmbience, arrangeForScript, AmbienceControl } from '../services/ambience';
+import { findToneProfile } from '../services/toneService';
+import { loadSegmentSpeech, getTimelineDuration, getSpeechSpans, findSpeechOverruns, findTimelinePosition, TimelinePosition } from '../services/timeline';
+import { renderMix, renderStems, encodeWav, downloadBlob, ExportSampleRate, EXPORT_SAMPLE_RATES } from '../services/audioExport';
+import { alignWords } from '../services/wordAlignment';
+import { getErrorMessage, isCancelled } from '../services/errors';
+
+interface MasterPlayerProps {
+  script: GeneratedScript;
+  tone: ToneId;
+  language?: Language;
+  voiceProfile?: VoiceProfile | null;
+  // Reports the segment being heard so its card can follow along; null when playback stops
+  onPositionChange: (position: TimelinePosition | null) => void;
+  // Receives each segment's word timings once its voiceover is decoded
+  onWordTimings?: (index: number, timings: WordTiming[]) => void;
+}
+
+type PlayerStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+// Lead time so the first clip isn't scheduled in the past
+const SCHEDULE_AHEAD_SECONDS = 0.05;
+
+// Browsers drop downloads fired in the same tick, so stems go out one after another
+const STEM_DOWNLOAD_GAP_MS = 250;
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = Math.floor(seconds % 60);
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+export const MasterPlayer: React.FC<MasterPlayerProps> = ({ script, tone, language, voiceProfile, onPositionChange, onWordTimings }) => {
+  const [status, setStatus] = useState<PlayerStatus>('idle');
+  const [position, setPosition] = useState(0);
+  const [loaded, setLoaded] = useState(0);
+  const [audioSeconds, setAudioSeconds] = useState<number[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isMusicOn, setIsMusicOn] = useState(true);
+  const [musicVolume, setMusicVolume] = useState(0.15);
+  const [showExport, setShowExport] = useState(false);
+  const [exportRate, setExportRate] = useState<ExportSampleRate>(48000);
+  const [exportStems, setExportStems] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const buffersRef = useRef<AudioBuffer[] | null>(null);
+  const sourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const ambienceRef = useRef<AmbienceControl | null>(null);
+  // AudioContext time at which the script's 0s plays
+  const originRef = useRef(0);
+  const rafRef = useRef<number | null>(null);
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const lastReportRef = useRef<string>('');
+
+  const segments = script.segments;
+  const total = getTimelineDuration(segments, audioSeconds ?? []);
+  const overruns = audioSeconds ? findSpeechOverruns(segments, audioSeconds) : [];
+
+  // Integer percentages keep parent re-renders to a few per second
+  const report = (next: TimelinePosition | null) => {
+    const rounded = next && { ...next, progress: Math.floor(next.progress) };
+    const key = rounded ? `${rounded.index}:${rounded.progress}` : '';
+    if (key === lastReportRef.current) return;
+    lastReportRef.current = key;
+    onPositionChange(rounded);
+  };
+
+  const stopSources = () => {
+    sourcesRef.current.forEach(source => {
+      source.onended = null;
+      try { source.stop(); } catch (e) {}
+    });
+    sourcesRef.current = [];
+    ambienceRef.current?.stop();
+    ambienceRef.current = null;
+    if (rafRef.current) {
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
+    }
+  };
+
+  // Held in a ref so claimPlayback always sees the same function, and stale renders stop the live player
+  const stopRef = useRef(() => {});
+  stopRef.current = () => {
+    loadAbortRef.current?.abort();
+    loadAbortRef.current = null;
+    stopSources();
+    setStatus('idle');
+    setPosition(0);
+    report(null);
+    releasePlayback(stopPlayback);
+  };
+  const stopPlayback = useRef(() => stopRef.current()).current;
+
+  // Only the text and placement matter here, so storing word timings on the segments doesn't stop playback
+  const audioKey = segments.map(s => `${s.startTime}|${s.speechPace}|${s.text}`).join('\n');
+
+  // Anything that changes the audio invalidates the loaded clips
+  useEffect(() => {
+    stopPlayback();
+    buffersRef.current = null;
+    setAudioSeconds(null);
+    setError(null);
+  }, [audioKey, tone, voiceProfile, language]);
+
+  useEffect(() => () => stopPlayback(), []);
+
+  useEffect(() => {
+    ambienceRef.current?.gainNode.gain.setTargetAtTime(musicVolume, getAudioContext().currentTime, 0.1);
+  }, [musicVolume]);
+
+  /**
+   * Starts the tone's music arranged to the script's sections, in step with the clips scheduled
+   * from originRef, and ducked under the speech still to come.
+   */
+  const startMusic = (buffers: AudioBuffer[]) => {
+    const ctx = getAudioContext();
+    const durations = buffers.map(b => b.duration);
+    const arrangement = arrangeForScript(segments, getTimelineDuration(segments, durations));
+    const music = playProceduralAmbience(ctx, findToneProfile(tone).ambience, musicVolume, arrangement, ctx.currentTime - originRef.current);
+    const shift = originRef.current - ctx.currentTime;
+    music.duckSpeech(getSpeechSpans(segments, durations).map(([start, end]): [number, number] => [start + shift, end + shift]));
+    ambienceRef.current = music;
+  };
+
+  useEffect(() => {
+    if (status !== 'playing') return;
+    if (isMusicOn && !ambienceRef.current && buffersRef.current) {
+      startMusic(buffersRef.current);
+    } else if (!isMusicOn && ambienceRef.current) {
+      ambienceRef.current.stop();
+      ambienceRef.current = null;
+    }
+  }, [isMusicOn, status]);
+
+  /**
+   * Schedules every clip at its segment's startTime relative to `offset` seconds into the script.
+   * A clip already under way at the offset starts part-way through.
+   */
+  const startAt = (offset: number, buffers: AudioBuffer[]) => {
+    const ctx = getAudioContext();
+    stopSources();
+    const now = ctx.currentTime + SCHEDULE_AHEAD_SECONDS;
+    originRef.current = now - offset;
+
+    sourcesRef.current = segments.flatMap((segment, i) => {
+      const buffer = buffers[i];
+      const into = offset - segment.startTime;
+      if (!buffer || into >= buffer.duration) return [];
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      if (into > 0) source.start(now, into);
+      else source.start(originRef.current + segment.startTime);
+      return [source];
+    });
+
+    if (isMusicOn) startMusic(buffers);
+    setStatus('playing');
+
+    const durations = buffers.map(b => b.duration);
+    const end = getTimelineDuration(segments, durations);
+    const tick = () => {
+      const seconds = ctx.currentTime - originRef.current;
+      if (seconds >= end) {
+        stopPlayback();
+        return;
+      }
+      setPosition(Math.max(0, seconds));
+      report(findTimelinePosition(segments, durations, seconds));
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    tick();
+  };
+
+  const loadBuffers = async (): Promise<AudioBuffer[] | null> => {
+    if (buffersRef.current) return buffersRef.current;
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    setStatus('loading');
+    setLoaded(0);
+    setError(null);
+    try {
+      const buffers = await loadSegmentSpeech(segments, tone, voiceProfile?.voiceName, language, setLoaded, controller.signal);
+      if (controller.signal.aborted) return null;
+      loadAbortRef.current = null;
+      buffersRef.current = buffers;
+      setAudioSeconds(buffers.map(b => b.duration));
+      buffers.forEach((buffer, i) => onWordTimings?.(i, alignWords(segments[i].text, buffer)));
+      return buffers;
+    } catch (err) {
+      if (isCancelled(err) || controller.signal.aborted) return null;
+      console.error("Master playback error:", err);
+      setError(getErrorMessage(err));
+      setStatus('idle');
+      releasePlayback(stopPlayback);
+      return null;
+    }
+  };
+
+  const handlePlay = async () => {
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    claimPlayback(stopPlayback);
+    const buffers = await loadBuffers();
+    if (buffers) startAt(status === 'paused' ? position : 0, buffers);
+  };
+
+  /**
+   * Renders the mix offline with the ambience as currently set, and optionally one aligned stem per
+   * segment. Reuses the clips already loaded for playback.
+   */
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const buffers = await loadBuffers();
+      // loadBuffers leaves the player in its loading state for handlePlay to take over
+      setStatus(prev => prev === 'loading' ? 'idle' : prev);
+      if (!buffers) return;
+      const filename = (script.topic || 'script').replace(/[^a-z0-9]/gi, '-').toLowerCase();
+      const ambience = isMusicOn ? findToneProfile(tone).ambience : null;
+      const mix = await renderMix(segments, buffers, ambience, musicVolume, exportRate);
+      downloadBlob(encodeWav(mix), `${filename}.wav`);
+      if (exportStems) {
+        for (const stem of await renderStems(segments, buffers, exportRate)) {
+          await new Promise(resolve => setTimeout(resolve, STEM_DOWNLOAD_GAP_MS));
+          downloadBlob(encodeWav(stem.buffer), `${filename}-${stem.filename}.wav`);
+        }
+      }
+    } catch (err) {
+      console.error("Audio export error:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handlePause = () => {
+    stopSources();
+    setStatus('paused');
+  };
+
+  const handleSeek = (seconds: number) => {
+    setPosition(seconds);
+    if (status === 'playing' && buffersRef.current) {
+      startAt(seconds, buffersRef.current);
+    } else if (status === 'paused' || status === 'idle') {
+      if (status === 'idle') {
+        claimPlayback(stopPlayback);
+        setStatus('paused');
+      }
+      report(findTimelinePosition(segments, audioSeconds ?? [], seconds));
+    }
+  };
+
+  if (segments.length === 0) return null;
+
+  return (
+    <section className="mb-6 bg-slate-900/60 border border-slate-800 rounded-2xl p-4" aria-label="Full script playback">
+      <div className="flex flex-wrap items-center gap-3">
+        {status === 'playing' ? (
+          <button
+            onClick={handlePause}
+            className="flex items-center justify-center w-10 h-10 rounded-full bg-indigo-600 hover:bg-indigo-500 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Pause full script"
+          >
+            <Pause className="w-4 h-4 fill-current" aria-hidden="true" />
+          </button>
+        ) : (
+          <button
+            onClick={handlePlay}
+            disabled={status === 'loading'}
+            className="flex items-center justify-center w-10 h-10 rounded-full bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label={status === 'paused' ? 'Resume full script' : 'Play full script'}
+          >
+            {status === 'loading' ? <Loader2 className="w-4 h-4 animate-spin" aria-hidden="true" /> : <Play className="w-4 h-4 fill-current ml-0.5" aria-hidden="true" />}
+          </button>
+        )}
+        <button
+          onClick={stopPlayback}
+          disabled={status === 'idle'}
+          className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label={status === 'loading' ? 'Cancel voiceover generation' : 'Stop full script'}
+        >
+          {status === 'loading' ? <X className="w-4 h-4" aria-hidden="true" /> : <Square className="w-4 h-4 fill-current" aria-hidden="true" />}
+        </button>
+
+        <div className="flex-1 min-w-[12rem]">
+          <div className="flex items-center justify-between text-xs mb-1">
+            <span className="flex items-center font-bold uppercase tracking-wider text-slate-400">
+              <ListVideo className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+              {status === 'loading' ? `Preparing voiceover ${loaded}/${segments.length}` : 'Full Script'}
+            </span>
+            <span className="font-mono text-indigo-400">{formatTime(position)} / {formatTime(total)}</span>
+          </div>
+          {/* Segment windows, with overrunning audio marked past the window's end */}
+          <div className="relative h-1.5 rounded-full bg-slate-800 overflow-hidden mb-1" aria-hidden="true">
+            {segments.map((s, i) => (
+              <span
+                key={i}
+                className={`absolute inset-y-0 border-r border-slate-950 ${i % 2 === 0 ? 'bg-slate-700' : 'bg-slate-600'}`}
+                style={{ left: `${(s.startTime / total) * 100}%`, width: `${((s.endTime - s.startTime) / total) * 100}%` }}
+              />
+            ))}
+            {overruns.map(o => (
+              <span
+                key={o.index}
+                className="absolute inset-y-0 bg-red-500/80"
+                style={{ left: `${(segments[o.index].endTime / total) * 100}%`, width: `${((o.audioSeconds - o.windowSeconds) / total) * 100}%` }}
+              />
+            ))}
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={total}
+            step={0.1}
+            value={Math.min(position, total)}
+            onChange={(e) => handleSeek(parseFloat(e.target.value))}
+            disabled={status === 'loading'}
+            className="w-full accent-indigo-500 cursor-pointer disabled:opacity-50"
+            aria-label="Seek through the full script"
+            aria-valuetext={`${formatTime(position)} of ${formatTime(total)}`}
+          />
+        </div>
+
+        <div className="flex items-center bg-slate-950/50 rounded-lg p-1 gap-2 border border-slate-800/50">
+          <button
+            onClick={() => setIsMusicOn(!isMusicOn)}
+            className={`p-1.5 rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${isMusicOn ? 'bg-indigo-500/20 text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+            aria-label={isMusicOn ? "Turn off ambience" : "Turn on ambience"}
+            aria-pressed={isMusicOn}
+          >
+            <Music className="w-3.5 h-3.5" aria-hidden="true" />
+          </button>
+          {isMusicOn && (
+            <input
+              type="range"
+              min="0"
+              max="0.5"
+              step="0.01"
+              value={musicVolume}
+              onChange={(e) => setMusicVolume(parseFloat(e.target.value))}
+              className="w-16 h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+              aria-label="Ambience volume"
+            />
+          )}
+        </div>
+
+        <button
+          onClick={() => setShowExport(!showExport)}
+          className={`flex items-center px-3 py-2 rounded-lg text-xs font-medium border transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${showExport ? 'bg-indigo-500/20 border-indigo-500/40 text-indigo-300' : 'bg-slate-950/50 border-slate-800/50 text-slate-400 hover:text-white'}`}
+          aria-expanded={showExport}
+          aria-controls="audio-export-options"
+        >
+          <Download className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />
+          Export audio
+        </button>
+      </div>
+
+      {showExport && (
+        <div id="audio-export-options" className="mt-3 flex flex-wrap items-center gap-4 text-xs text-slate-400 border-t border-slate-800 pt-3">
+          <label className="flex items-center gap-2">
+            Sample rate
+            <select
+              value={exportRate}
+              onChange={(e) => setExportRate(parseInt(e.target.value, 10) as ExportSampleRate)}
+              className="bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {EXPORT_SAMPLE_RATES.map(rate => (
+                <option key={rate} value={rate}>{rate / 1000} kHz</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={exportStems}
+              onChange={(e) => setExportStems(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Also download a stem per segment
+          </label>
+          <span className="text-slate-500">
+            {isMusicOn ? `Ambience at ${Math.round(musicVolume * 100)}%, ducked under speech` : 'Voiceover only'}
+          </span>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || status === 'loading'}
+            className="ml-auto flex items-center px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 text-white font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {isExporting ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" aria-hidden="true" /> : <Download className="w-3.5 h-3.5 mr-1.5" aria-hidden="true" />}
+            {isExporting ? 'Rendering...' : 'Download WAV'}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="mt-3 flex items-center text-xs text-red-400">
+          <AlertTriangle className="w-3.5 h-3.5 mr-1.5 flex-shrink-0" aria-hidden="true" />
+          {error}
+        </p>
+      )}
+
+      {overruns.length > 0 && (
+        <div role="status" className="mt-3 flex items-start gap-2 text-xs text-amber-300">
+          <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" aria-hidden="true" />
+          <ul className="space-y-0.5">
+            {overruns.map(o => (
+              <li key={o.index}>
+                {segments[o.index].label}: speech runs {o.audioSeconds.toFixed(1)}s in a {o.windowSeconds}s window
+                (+{(o.audioSeconds - o.windowSeconds).toFixed(1)}s {o.index < segments.length - 1 ? 'over the next segment' : 'past the end'})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,266 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { GenerationRequest, PromptTemplate, PromptTemplateKind } from '../types';
+import { FileCode2, X, Copy, Trash2, Lock, Check, Save, AlertTriangle, Eye } from 'lucide-react';
+import {
+  loadCustomPromptTemplates,
+  saveCustomPromptTemplates,
+  getAllPromptTemplates,
+  findPromptTemplate,
+  loadActivePromptIds,
+  setActivePromptId,
+  duplicatePromptTemplate,
+  saveTemplateVersion,
+  findUnknownVariables,
+  renderTemplate,
+  buildScriptVariables,
+  PROMPT_VARIABLES,
+  PROMPT_VARIABLE_DESCRIPTIONS,
+  PROMPT_KIND_LABELS
+} from '../services/promptService';
+import { delimitUserInput, MAX_VISUAL_PROMPT_LENGTH } from '../services/inputSafety';
+
+interface PromptTemplateEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Current form values, used to preview how a template renders
+  previewRequest: GenerationRequest;
+}
+
+const KINDS: PromptTemplateKind[] = ['script', 'system', 'image'];
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ isOpen, onClose, previewRequest }) => {
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(() => loadCustomPromptTemplates());
+  const [activeIds, setActiveIds] = useState(() => loadActivePromptIds());
+  const [kind, setKind] = useState<PromptTemplateKind>('script');
+  const [editingId, setEditingId] = useState<string | undefined>(activeIds.script);
+  const [draft, setDraft] = useState<{ name: string; body: string }>({ name: '', body: '' });
+  const [showPreview, setShowPreview] = useState(false);
+
+  const all = useMemo(() => getAllPromptTemplates(customTemplates), [customTemplates]);
+  const editing = findPromptTemplate(kind, editingId, all);
+  const readOnly = !!editing.builtIn;
+  const isDirty = draft.name !== editing.name || draft.body !== editing.body;
+  const unknownVariables = findUnknownVariables(kind, draft.body);
+
+  // Drafts reset whenever a different template is opened
+  useEffect(() => {
+    setDraft({ name: editing.name, body: editing.body });
+  }, [editing.id, editing.version]);
+
+  useEffect(() => {
+    if (isOpen) setEditingId(activeIds[kind]);
+  }, [isOpen]);
+
+  const preview = useMemo(() => {
+    if (!showPreview) return '';
+    const visual = previewRequest.topic ? `B-roll illustrating ${previewRequest.topic}` : 'A brain lighting up';
+    const variables = { ...buildScriptVariables(previewRequest), visual: delimitUserInput(visual, 'visual', MAX_VISUAL_PROMPT_LENGTH) };
+    return renderTemplate(draft.body, variables);
+  }, [showPreview, draft.body, previewRequest]);
+
+  if (!isOpen) return null;
+
+  const persist = (updated: PromptTemplate[]) => {
+    setCustomTemplates(updated);
+    saveCustomPromptTemplates(updated);
+  };
+
+  const handleKindChange = (k: PromptTemplateKind) => {
+    setKind(k);
+    setEditingId(activeIds[k]);
+  };
+
+  const handleUse = () => {
+    setActivePromptId(kind, editing.id);
+    setActiveIds(prev => ({ ...prev, [kind]: editing.id }));
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicatePromptTemplate({ ...editing, body: draft.body });
+    persist([...customTemplates, copy]);
+    setEditingId(copy.id);
+  };
+
+  const handleSave = () => {
+    const saved = saveTemplateVersion(editing, { name: draft.name.trim() || editing.name, body: draft.body });
+    persist(customTemplates.map(t => t.id === editing.id ? saved : t));
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the "${editing.name}" template?`)) return;
+    persist(customTemplates.filter(t => t.id !== editing.id));
+    if (activeIds[kind] === editing.id) {
+      const fallback = findPromptTemplate(kind, undefined);
+      setActivePromptId(kind, fallback.id);
+      setActiveIds(prev => ({ ...prev, [kind]: fallback.id }));
+    }
+    setEditingId(undefined);
+  };
+
+  const activeId = findPromptTemplate(kind, activeIds[kind], all).id;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="prompt-editor-title"
+        className="fixed inset-x-4 top-8 bottom-8 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-[56rem] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl z-[70] flex flex-col overflow-hidden"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-slate-950/50">
+          <h2 id="prompt-editor-title" className="text-lg font-bold text-white flex items-center">
+            <FileCode2 className="w-5 h-5 mr-2 text-indigo-400" aria-hidden="true" />
+            Prompt Templates
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Close prompt templates"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="px-5 pt-4 flex gap-2 border-b border-slate-800" role="tablist" aria-label="Template kind">
+          {KINDS.map(k => (
+            <button
+              key={k}
+              role="tab"
+              aria-selected={k === kind}
+              onClick={() => handleKindChange(k)}
+              className={`px-3 py-2 text-sm font-medium rounded-t-lg border-b-2 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                k === kind ? 'border-indigo-500 text-indigo-300' : 'border-transparent text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {PROMPT_KIND_LABELS[k]}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 flex flex-col sm:flex-row overflow-hidden">
+          {/* Template List */}
+          <div className="sm:w-60 border-b sm:border-b-0 sm:border-r border-slate-800 overflow-y-auto p-3 space-y-1" role="listbox" aria-label="Templates">
+            {all.filter(t => t.kind === kind).map(t => (
+              <button
+                key={t.id}
+                role="option"
+                aria-selected={t.id === editing.id}
+                onClick={() => setEditingId(t.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  t.id === editing.id ? 'bg-indigo-500/10 text-indigo-300' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+                }`}
+              >
+                <span className="flex items-center justify-between gap-2">
+                  <span className="truncate">{t.name}</span>
+                  <span className="flex items-center gap-1 shrink-0">
+                    <span className="text-[10px] font-mono text-slate-500">v{t.version}</span>
+                    {t.builtIn && <Lock className="w-3 h-3 text-slate-600" aria-label="Built-in" />}
+                  </span>
+                </span>
+                {t.id === activeId && <span className="text-[10px] font-bold uppercase tracking-wider text-emerald-400">Active</span>}
+              </button>
+            ))}
+          </div>
+
+          {/* Template Detail */}
+          <div className="flex-1 overflow-y-auto p-5 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={handleUse}
+                disabled={activeId === editing.id}
+                className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:bg-emerald-600/20 disabled:text-emerald-400 text-white px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <Check className="w-3.5 h-3.5" aria-hidden="true" />
+                {activeId === editing.id ? 'Active' : 'Use Template'}
+              </button>
+              <button
+                onClick={handleDuplicate}
+                className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <Copy className="w-3.5 h-3.5" aria-hidden="true" />
+                Duplicate
+              </button>
+              {!readOnly && (
+                <>
+                  <button
+                    onClick={handleSave}
+                    disabled={!isDirty}
+                    className="flex items-center gap-1.5 bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-400 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-emerald-500 disabled:opacity-40"
+                  >
+                    <Save className="w-3.5 h-3.5" aria-hidden="true" />
+                    {draft.body !== editing.body ? `Save as v${editing.version + 1}` : 'Save'}
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="flex items-center gap-1.5 text-slate-500 hover:text-red-400 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                    Delete
+                  </button>
+                </>
+              )}
+              {readOnly && <span className="text-xs text-slate-500">Built-in templates are read-only. Duplicate one to customize it.</span>}
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="prompt-template-name" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Name</label>
+              <input
+                id="prompt-template-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                disabled={readOnly}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <label htmlFor="prompt-template-body" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Template</label>
+              <textarea
+                id="prompt-template-body"
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                disabled={readOnly}
+                rows={14}
+                spellCheck={false}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-slate-200 leading-relaxed focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+              />
+              {unknownVariables.length > 0 && (
+                <p role="alert" className="flex items-center text-xs text-amber-400">
+                  <AlertTriangle className="w-3 h-3 mr-1" aria-hidden="true" />
+                  Unknown variables are sent as written: {unknownVariables.map(v => `{{${v}}}`).join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Variables</h3>
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {PROMPT_VARIABLES[kind].map(v => (
+                  <li key={v} className="text-xs text-slate-400">
+                    <code className="text-indigo-300 bg-indigo-500/10 px-1 rounded">{`{{${v}}}`}</code> {PROMPT_VARIABLE_DESCRIPTIONS[v]}
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div>
+              <button
+                onClick={() => setShowPreview(!showPreview)}
+                aria-expanded={showPreview}
+                className="flex items-center gap-1.5 text-indigo-400 hover:text-indigo-300 text-xs font-bold uppercase focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded px-2 py-1"
+              >
+                <Eye className="w-3.5 h-3.5" aria-hidden="true" />
+                {showPreview ? 'Hide Preview' : 'Preview With Current Form'}
+              </button>
+              {showPreview && (
+                <pre className="mt-2 whitespace-pre-wrap bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 font-mono max-h-72 overflow-y-auto">{preview}</pre>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
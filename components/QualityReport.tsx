@@ -0,0 +1,114 @@
+import React from 'react';
+import { GeneratedScript, ToneId } from '../types';
+import { Gauge, X, Check, AlertTriangle } from 'lucide-react';
+import { ScriptAnalysis, SegmentPace, MAX_GRADE_LEVEL, MAX_SENTENCE_WORDS, MAX_HOOK_SECONDS } from '../services/scriptAnalysis';
+import { getToneName } from '../services/toneService';
+
+interface QualityReportProps {
+  script: GeneratedScript;
+  tone: ToneId;
+  analysis: ScriptAnalysis;
+  onClose: () => void;
+}
+
+export const PACE_STYLES: Record<SegmentPace, string> = {
+  sparse: 'text-sky-300 bg-sky-500/10',
+  good: 'text-emerald-400 bg-emerald-500/10',
+  overloaded: 'text-red-400 bg-red-500/10'
+};
+
+const Metric: React.FC<{ label: string; value: string; detail?: string; warn?: boolean }> = ({ label, value, detail, warn }) => (
+  <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+    <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500">{label}</div>
+    <div className={`text-lg font-bold ${warn ? 'text-amber-300' : 'text-slate-100'}`}>{value}</div>
+    {detail && <div className="text-xs text-slate-500">{detail}</div>}
+  </div>
+);
+
+const CtaCheck: React.FC<{ label: string; ok: boolean }> = ({ label, ok }) => (
+  <span className={`inline-flex items-center gap-1 ${ok ? 'text-emerald-400' : 'text-amber-300'}`}>
+    {ok ? <Check className="w-3.5 h-3.5" aria-hidden="true" /> : <X className="w-3.5 h-3.5" aria-hidden="true" />}
+    {label}
+  </span>
+);
+
+export const QualityReport: React.FC<QualityReportProps> = ({ script, tone, analysis, onClose }) => (
+  <section id="quality-report" aria-labelledby="quality-report-title" className="mb-8 bg-slate-900/50 rounded-2xl border border-slate-800 p-6 animate-in fade-in slide-in-from-top-4">
+    <div className="flex items-center justify-between mb-4">
+      <div className="flex items-center">
+        <Gauge className="w-5 h-5 text-cyan-400 mr-2" aria-hidden="true" />
+        <h3 id="quality-report-title" className="text-lg font-bold text-cyan-300">Script Quality</h3>
+        <span className="ml-3 text-xs text-slate-500">Measured locally against a {getToneName(tone).toLowerCase()} pace</span>
+      </div>
+      <button
+        onClick={onClose}
+        className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        aria-label="Close quality report"
+      >
+        <X className="w-4 h-4" aria-hidden="true" />
+      </button>
+    </div>
+
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-4">
+      <Metric
+        label="Pace"
+        value={`${analysis.wordsPerSecond} w/s`}
+        detail={`Target ${analysis.targetWordsPerSecond} w/s`}
+        warn={analysis.overloadedCount > 0}
+      />
+      <Metric label="Reading Grade" value={String(analysis.gradeLevel)} detail="Flesch-Kincaid" warn={analysis.gradeLevel > MAX_GRADE_LEVEL} />
+      <Metric label="Avg Sentence" value={`${analysis.avgSentenceLength} words`} warn={analysis.avgSentenceLength > MAX_SENTENCE_WORDS} />
+      <Metric label="Filler Words" value={String(analysis.fillerCount)} warn={analysis.fillerCount > 0} />
+      <Metric
+        label="Hook"
+        value={`${analysis.hookWords} words`}
+        detail={`${analysis.hookSpokenSeconds}s to say`}
+        warn={analysis.hookSpokenSeconds > MAX_HOOK_SECONDS}
+      />
+      <div className="bg-slate-950/50 border border-slate-800 rounded-lg p-3">
+        <div className="text-[10px] font-bold uppercase tracking-wider text-slate-500">CTA</div>
+        <div className="flex flex-col gap-0.5 mt-1 text-sm font-medium">
+          <CtaCheck label="Asks to save" ok={analysis.ctaAsksToSave} />
+          <CtaCheck label="Asks to share" ok={analysis.ctaAsksToShare} />
+        </div>
+      </div>
+    </div>
+
+    {analysis.issues.length > 0 && (
+      <ul className="mb-4 space-y-1 text-sm text-amber-300" aria-label="Script issues">
+        {analysis.issues.map(issue => (
+          <li key={issue} className="flex items-start">
+            <AlertTriangle className="w-3.5 h-3.5 mr-2 mt-0.5 flex-shrink-0" aria-hidden="true" />
+            {issue}
+          </li>
+        ))}
+      </ul>
+    )}
+
+    <table className="w-full text-xs text-left">
+      <caption className="sr-only">Per-segment figures</caption>
+      <thead className="text-[10px] uppercase tracking-wider text-slate-500">
+        <tr>
+          <th scope="col" className="py-1 pr-2">Segment</th>
+          <th scope="col" className="py-1 pr-2">Words</th>
+          <th scope="col" className="py-1 pr-2">Pace</th>
+          <th scope="col" className="py-1 pr-2">Grade</th>
+          <th scope="col" className="py-1">Notes</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-800/50">
+        {analysis.segments.map((seg, index) => (
+          <tr key={index} className="align-top">
+            <td className="py-2 pr-2 font-bold text-slate-300">{script.segments[index]?.label}</td>
+            <td className="py-2 pr-2 font-mono text-slate-400">{seg.words} / {seg.seconds}s</td>
+            <td className="py-2 pr-2">
+              <span className={`font-mono px-1.5 py-0.5 rounded ${PACE_STYLES[seg.pace]}`}>{seg.wordsPerSecond}</span>
+            </td>
+            <td className="py-2 pr-2 font-mono text-slate-400">{seg.gradeLevel}</td>
+            <td className="py-2 text-slate-400">{seg.issues.length > 0 ? seg.issues.join(' • ') : <span className="text-slate-600">—</span>}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </section>
+);
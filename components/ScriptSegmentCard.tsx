@@ -1,50 +1,82 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ScriptSegment, Tone, VoiceProfile } from '../types';
-import { Clock, Video, Mic, Play, Pause, Loader2, Image as ImageIcon, Pencil, Twitter, Mail, Captions, Music, Volume2 } from 'lucide-react';
-import { generateSpeech, generateImage } from '../services/geminiService';
+import { ScriptSegment, ToneId, VoiceProfile, StoryFramework, Language, BrandViolation, WordTiming, SpeechPace } from '../types';
+import { FRAMEWORK_COLOR_CLASSES } from '../constants';
+import { findSection } from '../services/frameworkService';
+import { splitWords } from '../services/languageService';
+import { countWords } from '../services/scriptValidation';
+import { SegmentAnalysis } from '../services/scriptAnalysis';
+import { PACE_STYLES } from './QualityReport';
+import { Clock, Video, Mic, Play, Pause, Loader2, Image as ImageIcon, Pencil, Twitter, Mail, Captions, Music, Volume2, AlertTriangle, RotateCcw, RefreshCw, Wand2, X, BadgeCheck, Square, Rewind, Repeat, Timer } from 'lucide-react';
+import { generateSpeech, generateImage, getCachedSpeech, getCachedImage } from '../services/scriptService';
+import { getErrorMessage, isCancelled } from '../services/errors';
+import { detectInstructionLikeInput, MAX_GUIDANCE_LENGTH, MAX_VISUAL_PROMPT_LENGTH } from '../services/inputSafety';
+import { getAudioContext, claimPlayback, releasePlayback, decodeSpeech } from '../services/audioUtils';
+import { playProceduralAmbience, getSectionMood, AmbienceControl, MusicArrangement } from '../services/ambience';
+import { findToneProfile } from '../services/toneService';
+import { alignWords, estimateWordTimings, findWordIndex, findPhraseRange, findSpokenSpans, getWordTimings } from '../services/wordAlignment';
+import { TimelinePosition, getSpeechFit, getPaceTowardsFit } from '../services/timeline';
 
 interface ScriptSegmentCardProps {
   segment: ScriptSegment;
   isLast: boolean;
-  tone: Tone;
+  tone: ToneId;
+  framework: StoryFramework;
+  language?: Language;
+  analysis?: SegmentAnalysis;
+  brandViolations?: BrandViolation[];
+  masterPosition?: TimelinePosition; // Set while the full-script player is on this segment
   voiceProfile?: VoiceProfile | null;
   onShare?: (platform: 'twitter' | 'email') => void;
+  onRegenerate?: (guidance: string, signal: AbortSignal) => Promise<void>;
+  onWordTimings?: (timings: WordTiming[]) => void;
+  onSpeechPaceChange?: (pace: SpeechPace) => void;
+  // Resolves with a warning when the re-timed script falls outside the platform's duration range
+  onRetimeToSpeech?: (signal: AbortSignal, onProgress: (done: number, total: number) => void) => Promise<string | null>;
 }
 
-const getBorderColor = (label: string) => {
-  switch (label.toUpperCase()) {
-    case 'HOOK': return 'border-l-rose-500';
-    case 'PROBLEM': return 'border-l-orange-500';
-    case 'SOLUTION': return 'border-l-indigo-500';
-    case 'DEMONSTRATION': return 'border-l-emerald-500';
-    case 'CTA': return 'border-l-blue-500';
-    default: return 'border-l-slate-500';
-  }
-};
+// Section colours come from the selected framework; unknown labels fall back to slate
+const getSectionClasses = (framework: StoryFramework, label: string) =>
+  FRAMEWORK_COLOR_CLASSES[findSection(framework, label)?.color || 'slate'];
 
-const getBadgeColor = (label: string) => {
-  switch (label.toUpperCase()) {
-    case 'HOOK': return 'bg-rose-500/10 text-rose-400';
-    case 'PROBLEM': return 'bg-orange-500/10 text-orange-400';
-    case 'SOLUTION': return 'bg-indigo-500/10 text-indigo-400';
-    case 'DEMONSTRATION': return 'bg-emerald-500/10 text-emerald-400';
-    case 'CTA': return 'bg-blue-500/10 text-blue-400';
-    default: return 'bg-slate-500/10 text-slate-400';
-  }
+// Splits text around the given phrases (case-insensitive) so they can be marked up
+const highlightPhrases = (text: string, phrases: string[]): React.ReactNode => {
+  if (phrases.length === 0) return text;
+  const pattern = new RegExp(`(${phrases.map(p => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'giu');
+  return text.split(pattern).map((part, i) =>
+    i % 2 === 1 ? <mark key={i} className="bg-rose-500/20 text-rose-300 rounded px-0.5">{part}</mark> : part
+  );
 };
 
-// Shared AudioContext singleton
-let sharedAudioContext: AudioContext | null = null;
-
-// Global callback to stop the currently playing segment
-let activeStopCallback: (() => void) | null = null;
-
-const getAudioContext = () => {
-  if (!sharedAudioContext) {
-    sharedAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-  }
-  return sharedAudioContext;
-};
+const InlineError: React.FC<{ message: string; onRetry: () => void }> = ({ message, onRetry }) => (
+  <div role="alert" className="flex items-center justify-between gap-3 bg-red-500/10 border border-red-500/20 text-red-400 rounded-lg px-3 py-2 mb-3 text-xs animate-in fade-in">
+    <span className="flex items-center">
+      <AlertTriangle className="w-3.5 h-3.5 mr-1.5 shrink-0" aria-hidden="true" />
+      {message}
+    </span>
+    <button
+      onClick={onRetry}
+      className="flex items-center gap-1 shrink-0 bg-red-500/10 hover:bg-red-500/20 text-red-300 px-2 py-1 rounded font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+    >
+      <RotateCcw className="w-3 h-3" aria-hidden="true" />
+      Retry
+    </button>
+  </div>
+);
+
+const CancelButton: React.FC<{ onClick: () => void; label: string }> = ({ onClick, label }) => (
+  <button
+    onClick={onClick}
+    className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-red-500/10 transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+    aria-label={label}
+    title="Cancel"
+  >
+    <X className="w-3 h-3" aria-hidden="true" />
+  </button>
+);
+
+// Speeds offered for checking pacing; the pitch shifts with the speed
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+const SKIP_BACK_SECONDS = 2;
 
 const formatTime = (seconds: number) => {
   const m = Math.floor(seconds / 60);
@@ -52,139 +84,141 @@ const formatTime = (seconds: number) => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
-// --- Procedural Ambience Engine ---
-const playProceduralAmbience = (ctx: AudioContext, tone: Tone, volume: number) => {
-  const masterGain = ctx.createGain();
-  masterGain.gain.value = volume;
-  masterGain.connect(ctx.destination);
-
-  const nodes: AudioNode[] = [];
-  
-  const now = ctx.currentTime;
-  
-  const createOsc = (type: OscillatorType, freq: number, detune: number = 0, gainVal: number = 0.05) => {
-    const osc = ctx.createOscillator();
-    const gain = ctx.createGain();
-    osc.type = type;
-    osc.frequency.value = freq;
-    osc.detune.value = detune;
-    gain.gain.value = gainVal;
-    osc.connect(gain);
-    gain.connect(masterGain);
-    osc.start(now);
-    nodes.push(osc, gain);
-    return { osc, gain };
-  };
-
-  switch (tone) {
-    case Tone.URGENT:
-      // Throbbing Low Drone (Theta waves tension)
-      // A1 (55Hz)
-      const osc1 = createOsc('sawtooth', 55, 0, 0.03); 
-      const osc2 = createOsc('sawtooth', 55, 5, 0.03); 
-      // LFO for tension
-      const lfo = ctx.createOscillator();
-      lfo.frequency.value = 4; // 4Hz throb
-      const lfoGain = ctx.createGain();
-      lfoGain.gain.value = 50; 
-      lfo.connect(lfoGain);
-      lfoGain.connect(osc1.osc.detune);
-      lfo.start(now);
-      nodes.push(lfo, lfoGain);
-      break;
-
-    case Tone.MOTIVATIONAL:
-    case Tone.HUMOROUS:
-      // Bright Major Pad - Slightly reduced gain for subtlety
-      createOsc('triangle', 130.81, 0, 0.04); // C3
-      createOsc('triangle', 164.81, 0, 0.04); // E3
-      createOsc('triangle', 196.00, 0, 0.04); // G3
-      break;
-
-    case Tone.CALM:
-    case Tone.PERSONAL:
-      // Smooth Sine Binaural (Theta/Alpha)
-      createOsc('sine', 220, 0, 0.05); // A3
-      createOsc('sine', 224, 0, 0.05); // A3 + 4Hz binaural beat
-      createOsc('sine', 110, 0, 0.03); // A2 Sub
-      break;
-    
-    case Tone.AUTHORITATIVE:
-      // Deep Sub Resonance
-      createOsc('sine', 65.41, 0, 0.15); // C2
-      createOsc('triangle', 130.81, 0, 0.02); // C3 low mix
-      break;
-
-    default: // STORYTELLING etc
-      // Neutral Warm Pad
-      createOsc('triangle', 146.83, 0, 0.04); // D3
-      createOsc('sine', 293.66, 0, 0.04); // D4
-      break;
-  }
-
-  return {
-    stop: () => {
-      const end = ctx.currentTime + 1.0; // 1s fade out
-      masterGain.gain.linearRampToValueAtTime(0, end);
-      nodes.forEach(node => {
-        if (node instanceof OscillatorNode) {
-          node.stop(end);
-        }
-      });
-      setTimeout(() => {
-        masterGain.disconnect();
-      }, 1100);
-    },
-    gainNode: masterGain
-  };
-};
-
-export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, isLast, tone, voiceProfile, onShare }) => {
+export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, isLast, tone, framework, language, analysis, brandViolations = [], masterPosition, voiceProfile, onShare, onRegenerate, onWordTimings, onSpeechPaceChange, onRetimeToSpeech }) => {
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoadingAudio, setIsLoadingAudio] = useState(false);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
-  const [progress, setProgress] = useState(0); // 0 to 100
+  const [position, setPosition] = useState(0); // Seconds into the voiceover
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [loopRange, setLoopRange] = useState<[number, number] | null>(null);
   const [audioDuration, setAudioDuration] = useState(0);
+  const [audioError, setAudioError] = useState<string | null>(null);
   
   // Music State
   const [isBgMusicOn, setIsBgMusicOn] = useState(true);
   const [bgMusicVolume, setBgMusicVolume] = useState(0.15);
   
   const sourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const bgMusicControlRef = useRef<{ stop: () => void, gainNode: GainNode } | null>(null);
+  const bgMusicControlRef = useRef<AmbienceControl | null>(null);
+  // The playing source started at `offsetRef` seconds into the buffer at AudioContext time `startTimeRef`
   const startTimeRef = useRef<number>(0);
+  const offsetRef = useRef<number>(0);
   const rafRef = useRef<number | null>(null);
+  // Mirrors of state read from audio callbacks, which would otherwise see a stale render
+  const positionRef = useRef(0);
+  const rateRef = useRef(1);
+  const loopRef = useRef<[number, number] | null>(null);
+
+  // One controller per kind of request; aborting one discards its response
+  const audioAbortRef = useRef<AbortController | null>(null);
+  const imageAbortRef = useRef<AbortController | null>(null);
+  const rewriteAbortRef = useRef<AbortController | null>(null);
+  const retimeAbortRef = useRef<AbortController | null>(null);
 
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [customPrompt, setCustomPrompt] = useState(segment.visual);
   const [showPromptInput, setShowPromptInput] = useState(false);
+  const promptWarnings = showPromptInput ? detectInstructionLikeInput(customPrompt, MAX_VISUAL_PROMPT_LENGTH) : [];
+  const [imageError, setImageError] = useState<string | null>(null);
+
+  // Segment rewrite state
+  const [showRewrite, setShowRewrite] = useState(false);
+  const [rewriteGuidance, setRewriteGuidance] = useState('');
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [rewriteError, setRewriteError] = useState<string | null>(null);
+
+  // Fit-to-window fixes
+  const [isRetiming, setIsRetiming] = useState(false);
+  const [retimeWarning, setRetimeWarning] = useState<string | null>(null);
+  const [retimeProgress, setRetimeProgress] = useState<{ done: number; total: number } | null>(null);
+  const [fitError, setFitError] = useState<{ message: string; retry: () => void } | null>(null);
+
+  const sectionClasses = getSectionClasses(framework, segment.label);
+  // Share options go on the framework's closing section (the CTA in the default framework)
+  const isClosingSection = segment.label.toUpperCase() === framework.sections[framework.sections.length - 1]?.label;
+  // The music plays this segment's section of the full-script arrangement on its own
+  const musicArrangement: MusicArrangement = { sections: [{ start: 0, mood: getSectionMood(segment.label, isClosingSection) }] };
+
+  // Derived state for subtitles; the full-script player drives them while it is on this segment
+  const isMasterActive = masterPosition !== undefined;
+  const isResumable = position > 0 && position < audioDuration;
+  // How the decoded voiceover compares with the segment's time window
+  const fit = audioDuration > 0 ? getSpeechFit(segment, audioDuration) : null;
+  const fitPace = fit ? getPaceTowardsFit(fit, segment.speechPace) : null;
+  const subtitleSeconds = masterPosition ? masterPosition.seconds : position;
+  const words = splitWords(segment.text);
+  const wordTimings = getWordTimings(segment) ?? estimateWordTimings(segment.text, audioDuration);
+  const currentWordIndex = findWordIndex(wordTimings, subtitleSeconds);
+  const cardRef = useRef<HTMLDivElement>(null);
 
-  // Derived state for subtitles
-  const words = segment.text.split(' ');
-  const currentWordIndex = Math.min(
-    Math.floor((progress / 100) * words.length),
-    words.length - 1
-  );
+  useEffect(() => {
+    if (isMasterActive) cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [isMasterActive]);
+
+  const abortPending = () => {
+    [audioAbortRef, imageAbortRef, rewriteAbortRef, retimeAbortRef].forEach(ref => {
+      ref.current?.abort();
+      ref.current = null;
+    });
+  };
 
+  // Responses for the previous segment no longer apply
   useEffect(() => {
+    abortPending();
+    setIsLoadingAudio(false);
+    setIsGeneratingImage(false);
+    setIsRewriting(false);
     setCustomPrompt(segment.visual);
     setImageSrc(null);
     if (isPlaying) stopAudio();
     setAudioBuffer(null);
     setAudioDuration(0);
-    setProgress(0);
+    updatePosition(0);
+    updateLoop(null);
     setShowPromptInput(false);
-  }, [segment]);
+    setAudioError(null);
+    setImageError(null);
+    setFitError(null);
+  }, [segment.text, segment.visual]);
+
+  // Media generated earlier for this text and visual shows up straight away, without a new call.
+  // A voice or language change drops audio made with the old settings unless it is playing.
+  useEffect(() => {
+    let stale = false;
+    if (!sourceRef.current) {
+      setAudioBuffer(null);
+      setAudioDuration(0);
+      updatePosition(0);
+      updateLoop(null);
+    }
+    getCachedSpeech(segment.text, tone, voiceProfile?.voiceName, language, segment.speechPace).then(base64Audio => {
+      if (stale || !base64Audio) return;
+      const buffer = decodeSpeech(base64Audio);
+      setAudioBuffer(buffer);
+      setAudioDuration(buffer.duration);
+      onWordTimings?.(alignWords(segment.text, buffer));
+    });
+    return () => { stale = true; };
+  }, [segment.text, segment.speechPace, tone, voiceProfile, language]);
+
+  useEffect(() => {
+    let stale = false;
+    getCachedImage(segment.visual).then(src => {
+      if (!stale && src) setImageSrc(src);
+    });
+    return () => { stale = true; };
+  }, [segment.visual]);
 
   useEffect(() => {
     return () => {
+      abortPending();
       if (sourceRef.current) {
         try { sourceRef.current.stop(); } catch (e) {}
       }
       if (rafRef.current) cancelAnimationFrame(rafRef.current);
       if (bgMusicControlRef.current) bgMusicControlRef.current.stop();
-      if (activeStopCallback === stopAudio) activeStopCallback = null;
+      releasePlayback(pauseAudio);
     };
   }, []);
 
@@ -200,7 +234,8 @@ export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, i
     if (isPlaying) {
       const ctx = getAudioContext();
       if (isBgMusicOn && !bgMusicControlRef.current) {
-        bgMusicControlRef.current = playProceduralAmbience(ctx, tone, bgMusicVolume);
+        bgMusicControlRef.current = playProceduralAmbience(ctx, findToneProfile(tone).ambience, bgMusicVolume, musicArrangement);
+        duckMusic();
       } else if (!isBgMusicOn && bgMusicControlRef.current) {
         bgMusicControlRef.current.stop();
         bgMusicControlRef.current = null;
@@ -208,158 +243,407 @@ export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, i
     }
   }, [isBgMusicOn, isPlaying, tone]); // bgMusicVolume handled by separate effect
 
-  const stopAudio = () => {
+  const updatePosition = (seconds: number) => {
+    positionRef.current = seconds;
+    setPosition(seconds);
+  };
+
+  const updateLoop = (range: [number, number] | null) => {
+    loopRef.current = range;
+    setLoopRange(range);
+  };
+
+  // Where the playing source is in the buffer, allowing for speed and for wrapping round a loop
+  const getPlayhead = (): number => {
+    const source = sourceRef.current;
+    if (!source?.buffer) return positionRef.current;
+    let seconds = offsetRef.current + (getAudioContext().currentTime - startTimeRef.current) * rateRef.current;
+    const loop = loopRef.current;
+    if (loop && seconds >= loop[1]) seconds = loop[0] + ((seconds - loop[0]) % (loop[1] - loop[0]));
+    return Math.min(seconds, source.buffer.duration);
+  };
+
+  const stopSource = () => {
     if (sourceRef.current) {
+      sourceRef.current.onended = null;
       try { sourceRef.current.stop(); } catch (e) {}
       sourceRef.current = null;
     }
-    if (bgMusicControlRef.current) {
-      bgMusicControlRef.current.stop();
-      bgMusicControlRef.current = null;
-    }
     if (rafRef.current) {
       cancelAnimationFrame(rafRef.current);
       rafRef.current = null;
     }
-    setIsPlaying(false);
-    setProgress(0);
   };
 
-  const updateProgress = () => {
-    if (!sourceRef.current || !sharedAudioContext) return;
-    
-    const elapsed = sharedAudioContext.currentTime - startTimeRef.current;
-    const duration = audioBuffer?.duration || 0;
-    
-    if (duration > 0) {
-      const p = Math.min((elapsed / duration) * 100, 100);
-      setProgress(p);
-      
-      if (elapsed < duration) {
-        rafRef.current = requestAnimationFrame(updateProgress);
-      } else {
-        setProgress(100);
-      }
+  /**
+   * Starts the voiceover `offset` seconds in, at the current speed and loop. Every seek, speed
+   * change and loop change goes through here, so the playhead maths has one anchor to follow.
+   */
+  const startSource = (buffer: AudioBuffer, offset: number) => {
+    stopSource();
+    const ctx = getAudioContext();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = rateRef.current;
+    const loop = loopRef.current;
+    let from = Math.max(0, Math.min(offset, buffer.duration));
+    if (loop) {
+      source.loop = true;
+      source.loopStart = loop[0];
+      source.loopEnd = loop[1];
+      if (from < loop[0] || from >= loop[1]) from = loop[0];
     }
+    source.connect(ctx.destination);
+
+    source.onended = () => {
+      if (sourceRef.current !== source) return;
+      sourceRef.current = null;
+      finishPlayback();
+      updatePosition(buffer.duration);
+    };
+
+    offsetRef.current = from;
+    startTimeRef.current = ctx.currentTime;
+    source.start(0, from);
+    sourceRef.current = source;
+    updatePosition(from);
+    duckMusic();
+
+    const tick = () => {
+      if (sourceRef.current !== source) return;
+      const seconds = getPlayhead();
+      // Wrapped round the looped phrase, so the music needs ducking for the next pass
+      if (seconds < positionRef.current) duckMusic();
+      updatePosition(seconds);
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    rafRef.current = requestAnimationFrame(tick);
   };
 
-  const base64ToBytes = (base64: string): Uint8Array => {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
+  /**
+   * Ducks the music under the rest of the voiceover from the playhead, allowing for the speed. A
+   * looped phrase is ducked for this pass and the next; each wrap round the loop schedules again.
+   */
+  const duckMusic = () => {
+    const music = bgMusicControlRef.current;
+    const buffer = sourceRef.current?.buffer;
+    if (!music || !buffer) return;
+    const from = getPlayhead();
+    const loop = loopRef.current;
+    const timings = getWordTimings(segment);
+    const spoken: [number, number][] = timings ? findSpokenSpans(timings) : [[0, buffer.duration]];
+    const passes = loop ? [0, loop[1] - loop[0]] : [0];
+    const spans = passes.flatMap(shift => spoken
+      .map(([start, end]): [number, number] => loop ? [Math.max(start, loop[0]), Math.min(end, loop[1])] : [start, end])
+      .filter(([start, end]) => end > start)
+      .map(([start, end]): [number, number] => [(start + shift - from) / rateRef.current, (end + shift - from) / rateRef.current]));
+    music.duckSpeech(spans);
   };
 
-  const pcmToAudioBuffer = (data: Uint8Array, ctx: AudioContext): AudioBuffer => {
-    const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
-    const frameCount = dataInt16.length;
-    const buffer = ctx.createBuffer(1, frameCount, 24000);
-    const channelData = buffer.getChannelData(0);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i] / 32768.0;
+  const finishPlayback = () => {
+    stopSource();
+    if (bgMusicControlRef.current) {
+      bgMusicControlRef.current.stop();
+      bgMusicControlRef.current = null;
     }
+    setIsPlaying(false);
+    releasePlayback(pauseAudio);
+  };
+
+  // Held in a ref so claimPlayback always sees the same function; keeps the playhead where it is
+  const pauseRef = useRef(() => {});
+  pauseRef.current = () => {
+    const seconds = getPlayhead();
+    finishPlayback();
+    updatePosition(seconds);
+  };
+  const pauseAudio = useRef(() => pauseRef.current()).current;
+
+  const stopAudio = () => {
+    finishPlayback();
+    updatePosition(0);
+  };
+
+  // Generates (or reads from the media cache) and decodes the voiceover; null when cancelled
+  const loadSpeech = async (pace?: SpeechPace): Promise<AudioBuffer | null> => {
+    setIsLoadingAudio(true);
+    const controller = new AbortController();
+    audioAbortRef.current = controller;
+    const base64Audio = await generateSpeech(segment.text, tone, voiceProfile?.voiceName, language, pace, controller.signal);
+    if (controller.signal.aborted) return null;
+    audioAbortRef.current = null;
+    const buffer = decodeSpeech(base64Audio);
+    setAudioBuffer(buffer);
+    setAudioDuration(buffer.duration);
+    onWordTimings?.(alignWords(segment.text, buffer));
+    setIsLoadingAudio(false);
     return buffer;
   };
 
-  const toggleAudio = async () => {
+  const playAudio = async () => {
     const ctx = getAudioContext();
     if (ctx.state === 'suspended') await ctx.resume();
 
-    if (isPlaying) {
-      stopAudio();
-      if (activeStopCallback === stopAudio) activeStopCallback = null;
-      return;
-    }
-
-    if (activeStopCallback) activeStopCallback();
-    activeStopCallback = stopAudio;
+    claimPlayback(pauseAudio);
 
     setIsPlaying(true);
+    setAudioError(null);
 
     try {
       let buffer = audioBuffer;
 
       if (!buffer) {
-        setIsLoadingAudio(true);
-        const voiceOverride = voiceProfile?.voiceName;
-        const base64Audio = await generateSpeech(segment.text, tone, voiceOverride);
-        const pcmBytes = base64ToBytes(base64Audio);
-        buffer = pcmToAudioBuffer(pcmBytes, ctx);
-        setAudioBuffer(buffer);
-        setAudioDuration(buffer.duration);
-        setIsLoadingAudio(false);
+        buffer = await loadSpeech(segment.speechPace);
+        if (!buffer) return;
       } else {
         setAudioDuration(buffer.duration);
       }
 
       // Start Background Ambience (if on)
-      if (isBgMusicOn) {
-        bgMusicControlRef.current = playProceduralAmbience(ctx, tone, bgMusicVolume);
+      if (isBgMusicOn && !bgMusicControlRef.current) {
+        bgMusicControlRef.current = playProceduralAmbience(ctx, findToneProfile(tone).ambience, bgMusicVolume, musicArrangement);
       }
 
-      // Start Speech
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      
-      source.onended = () => {
-        setIsPlaying(false);
-        sourceRef.current = null;
-        setProgress(100);
-        if (bgMusicControlRef.current) {
-           bgMusicControlRef.current.stop();
-           bgMusicControlRef.current = null;
-        }
-        if (rafRef.current) cancelAnimationFrame(rafRef.current);
-        if (activeStopCallback === stopAudio) activeStopCallback = null;
-      };
-
-      startTimeRef.current = ctx.currentTime;
-      source.start();
-      sourceRef.current = source;
-      
-      updateProgress();
+      // Resume from the playhead, or from the top once it has reached the end
+      const resumeAt = positionRef.current;
+      startSource(buffer, resumeAt >= buffer.duration ? 0 : resumeAt);
 
     } catch (error) {
+      if (isCancelled(error)) return;
       console.error("Audio playback error:", error);
+      setAudioError(getErrorMessage(error));
       setIsPlaying(false);
       setIsLoadingAudio(false);
-      if (activeStopCallback === stopAudio) activeStopCallback = null;
+      releasePlayback(pauseAudio);
     }
   };
 
+  const toggleAudio = () => {
+    if (isPlaying) pauseAudio();
+    else playAudio();
+  };
+
+  const seekAudio = (seconds: number) => {
+    const target = Math.max(0, Math.min(seconds, audioDuration));
+    // Seeking out of the looped phrase means moving on from it
+    const loop = loopRef.current;
+    if (loop && (target < loop[0] || target >= loop[1])) updateLoop(null);
+    if (sourceRef.current && audioBuffer) startSource(audioBuffer, target);
+    else updatePosition(target);
+  };
+
+  const changePlaybackRate = (rate: number) => {
+    const seconds = getPlayhead();
+    rateRef.current = rate;
+    setPlaybackRate(rate);
+    if (sourceRef.current && audioBuffer) startSource(audioBuffer, seconds);
+  };
+
+  // Loops the phrase under the playhead, or clears the loop
+  const toggleLoop = () => {
+    const seconds = getPlayhead();
+    updateLoop(loopRef.current ? null : findPhraseRange(wordTimings, seconds));
+    if (sourceRef.current && audioBuffer) startSource(audioBuffer, seconds);
+  };
+
+  const cancelAudioLoad = () => {
+    audioAbortRef.current?.abort();
+    audioAbortRef.current = null;
+    setIsLoadingAudio(false);
+    setIsPlaying(false);
+    releasePlayback(pauseAudio);
+  };
+
+  const handleRewrite = async (guidance: string = rewriteGuidance) => {
+    if (!onRegenerate) return;
+    const controller = new AbortController();
+    rewriteAbortRef.current = controller;
+    setIsRewriting(true);
+    setRewriteError(null);
+    try {
+      await onRegenerate(guidance.trim(), controller.signal);
+      setShowRewrite(false);
+      setRewriteGuidance('');
+    } catch (error) {
+      if (isCancelled(error)) return;
+      console.error("Segment rewrite error:", error);
+      setRewriteError(getErrorMessage(error));
+    } finally {
+      if (rewriteAbortRef.current === controller) {
+        rewriteAbortRef.current = null;
+        setIsRewriting(false);
+      }
+    }
+  };
+
+  // Asks the model for text that reads in the window, at the pace the voiceover actually ran
+  const handleFitText = () => {
+    if (!fit) return;
+    const words = countWords(segment.text);
+    const target = Math.max(1, Math.round((words * fit.windowSeconds) / fit.audioSeconds));
+    const guidance = fit.kind === 'overrun'
+      ? `It reads in ${fit.audioSeconds.toFixed(1)}s but must fit ${fit.windowSeconds}s. Tighten it to about ${target} words.`
+      : `It reads in only ${fit.audioSeconds.toFixed(1)}s of a ${fit.windowSeconds}s window. Expand it to about ${target} words.`;
+    setShowRewrite(true);
+    setRewriteGuidance(guidance);
+    handleRewrite(guidance);
+  };
+
+  const handlePaceFix = async (pace: SpeechPace) => {
+    stopAudio();
+    setFitError(null);
+    try {
+      const buffer = await loadSpeech(pace);
+      if (buffer) onSpeechPaceChange?.(pace);
+    } catch (error) {
+      setIsLoadingAudio(false);
+      if (isCancelled(error)) return;
+      console.error("Speech pace error:", error);
+      setFitError({ message: getErrorMessage(error), retry: () => handlePaceFix(pace) });
+    }
+  };
+
+  const handleRetime = async () => {
+    if (!onRetimeToSpeech) return;
+    const controller = new AbortController();
+    retimeAbortRef.current = controller;
+    setIsRetiming(true);
+    setRetimeProgress(null);
+    setRetimeWarning(null);
+    setFitError(null);
+    try {
+      const warning = await onRetimeToSpeech(controller.signal, (done, total) => {
+        if (!controller.signal.aborted) setRetimeProgress({ done, total });
+      });
+      setRetimeWarning(warning);
+    } catch (error) {
+      if (isCancelled(error)) return;
+      console.error("Re-timing error:", error);
+      setFitError({ message: getErrorMessage(error), retry: handleRetime });
+    } finally {
+      if (retimeAbortRef.current === controller) {
+        retimeAbortRef.current = null;
+        setIsRetiming(false);
+        setRetimeProgress(null);
+      }
+    }
+  };
+
+  const cancelRetime = () => {
+    retimeAbortRef.current?.abort();
+    retimeAbortRef.current = null;
+    setIsRetiming(false);
+    setRetimeProgress(null);
+  };
+
+  const cancelRewrite = () => {
+    rewriteAbortRef.current?.abort();
+    rewriteAbortRef.current = null;
+    setIsRewriting(false);
+  };
+
   const handleGenerateImage = async () => {
+    const controller = new AbortController();
+    imageAbortRef.current = controller;
     setIsGeneratingImage(true);
+    setImageError(null);
     try {
       const promptToUse = showPromptInput ? customPrompt : segment.visual;
-      const base64Image = await generateImage(promptToUse);
+      const base64Image = await generateImage(promptToUse, controller.signal);
+      if (controller.signal.aborted) return;
       setImageSrc(base64Image);
       setShowPromptInput(false);
     } catch (error) {
+      if (isCancelled(error)) return;
       console.error("Image generation error:", error);
+      setImageError(getErrorMessage(error));
     } finally {
-      setIsGeneratingImage(false);
+      if (imageAbortRef.current === controller) {
+        imageAbortRef.current = null;
+        setIsGeneratingImage(false);
+      }
     }
   };
 
+  const cancelImage = () => {
+    imageAbortRef.current?.abort();
+    imageAbortRef.current = null;
+    setIsGeneratingImage(false);
+  };
+
   return (
-    <div className={`relative pl-8 pb-8 ${isLast ? '' : 'border-l-2 border-slate-800'}`}>
+    <div ref={cardRef} className={`relative pl-8 pb-8 ${isLast ? '' : 'border-l-2 border-slate-800'}`}>
       <div className="absolute -left-[9px] top-0 w-4 h-4 rounded-full bg-slate-900 border-2 border-slate-700 ring-4 ring-slate-950" aria-hidden="true"></div>
 
-      <div className={`bg-slate-900/50 rounded-xl border-l-4 p-5 shadow-lg backdrop-blur-sm hover:bg-slate-800/50 transition-colors ${getBorderColor(segment.label)}`}>
+      <div className={`bg-slate-900/50 rounded-xl border-l-4 p-5 shadow-lg backdrop-blur-sm hover:bg-slate-800/50 transition-colors ${sectionClasses.border} ${isMasterActive ? 'ring-2 ring-indigo-500/60' : ''}`}>
         <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
-          <span className={`px-3 py-1 rounded-full text-xs font-bold tracking-wide uppercase ${getBadgeColor(segment.label)}`}>
+          <span className={`px-3 py-1 rounded-full text-xs font-bold tracking-wide uppercase ${sectionClasses.badge}`}>
             {segment.label}
           </span>
-          <div className="flex items-center text-slate-400 font-mono text-xs bg-slate-950/50 px-2 py-1 rounded" aria-label={`Timestamp: ${segment.startTime} to ${segment.endTime} seconds`}>
-            <Clock className="w-3 h-3 mr-1.5" aria-hidden="true" />
-            {segment.startTime}s - {segment.endTime}s
+          <div className="flex items-center gap-2">
+            {analysis && (
+              <span
+                className={`flex items-center gap-1 font-mono text-xs px-2 py-1 rounded ${PACE_STYLES[analysis.pace]}`}
+                title={analysis.issues.length > 0 ? analysis.issues.join('\n') : `On pace: ${analysis.words} words, target ${analysis.targetWordsPerSecond} w/s`}
+                aria-label={`${analysis.wordsPerSecond} words per second, ${analysis.issues.length} quality ${analysis.issues.length === 1 ? 'issue' : 'issues'}`}
+              >
+                {analysis.pace === 'overloaded' && <AlertTriangle className="w-3 h-3" aria-hidden="true" />}
+                {analysis.wordsPerSecond} w/s
+                {analysis.issues.length > 0 && <span className="opacity-70">• {analysis.issues.length}</span>}
+              </span>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={() => setShowRewrite(!showRewrite)}
+                disabled={isRewriting}
+                aria-label={`Rewrite ${segment.label} segment`}
+                aria-expanded={showRewrite}
+                className={`flex items-center gap-1 text-xs font-bold uppercase px-2 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-violet-500 ${
+                  showRewrite ? 'bg-violet-500/20 text-violet-300' : 'bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-slate-200'
+                }`}
+              >
+                <RefreshCw className={`w-3 h-3 ${isRewriting ? 'animate-spin' : ''}`} aria-hidden="true" />
+                <span className="hidden sm:inline">Rewrite</span>
+              </button>
+            )}
+            <div className="flex items-center text-slate-400 font-mono text-xs bg-slate-950/50 px-2 py-1 rounded" aria-label={`Timestamp: ${segment.startTime} to ${segment.endTime} seconds`}>
+              <Clock className="w-3 h-3 mr-1.5" aria-hidden="true" />
+              {segment.startTime}s - {segment.endTime}s
+            </div>
           </div>
         </div>
 
+        {showRewrite && onRegenerate && (
+          <div className="mb-4 bg-violet-500/5 border border-violet-500/20 rounded-lg p-3 animate-in fade-in slide-in-from-top-1 duration-200">
+            {rewriteError && <InlineError message={rewriteError} onRetry={() => handleRewrite()} />}
+            <label htmlFor={`rewrite-guidance-${segment.startTime}`} className="block text-xs font-bold text-violet-300 uppercase tracking-wider mb-2">
+              Rewrite this {segment.label.toLowerCase()} ({segment.endTime - segment.startTime}s budget)
+            </label>
+            <div className="flex gap-2">
+              <input
+                id={`rewrite-guidance-${segment.startTime}`}
+                type="text"
+                value={rewriteGuidance}
+                onChange={(e) => setRewriteGuidance(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && !isRewriting) handleRewrite(); }}
+                placeholder="Optional guidance, e.g. more counter-intuitive"
+                maxLength={MAX_GUIDANCE_LENGTH}
+                disabled={isRewriting}
+                className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-violet-500"
+              />
+              <button
+                onClick={() => handleRewrite()}
+                disabled={isRewriting}
+                className="flex items-center gap-1.5 bg-violet-600 hover:bg-violet-500 disabled:bg-slate-800 disabled:text-slate-500 text-white px-3 py-2 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-violet-500"
+              >
+                {isRewriting ? <Loader2 className="w-3.5 h-3.5 animate-spin" aria-hidden="true" /> : <Wand2 className="w-3.5 h-3.5" aria-hidden="true" />}
+                {isRewriting ? 'Rewriting...' : 'Rewrite'}
+              </button>
+              {isRewriting && <CancelButton onClick={cancelRewrite} label="Cancel rewrite" />}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-4">
           <div>
             <div className="flex items-center justify-between mb-1.5">
@@ -369,14 +653,14 @@ export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, i
               </div>
               <div className="flex items-center gap-3">
                 {(audioDuration > 0) && (
-                  <span className="text-xs font-mono text-indigo-400" aria-label={`Playback time: ${formatTime(isPlaying ? (audioDuration * progress) / 100 : 0)} of ${formatTime(audioDuration)}`}>
-                    {formatTime(isPlaying ? (audioDuration * progress) / 100 : 0)} / {formatTime(audioDuration)}
+                  <span className="text-xs font-mono text-indigo-400" aria-label={`Playback time: ${formatTime(position)} of ${formatTime(audioDuration)}`}>
+                    {formatTime(position)} / {formatTime(audioDuration)}
                   </span>
                 )}
                 <button
                   onClick={toggleAudio}
                   disabled={isLoadingAudio}
-                  aria-label={isPlaying ? "Stop audio preview" : "Play audio preview"}
+                  aria-label={isPlaying ? "Pause audio preview" : isResumable ? "Resume audio preview" : "Play audio preview"}
                   className={`flex items-center space-x-1 text-xs font-bold uppercase px-2 py-1 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
                     isPlaying 
                       ? 'bg-indigo-500/20 text-indigo-400 hover:bg-indigo-500/30' 
@@ -390,8 +674,19 @@ export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, i
                   ) : (
                     <Play className="w-3 h-3 fill-current" aria-hidden="true" />
                   )}
-                  <span>{isLoadingAudio ? 'Loading...' : isPlaying ? 'Stop' : 'Preview'}</span>
+                  <span>{isLoadingAudio ? 'Loading...' : isPlaying ? 'Pause' : isResumable ? 'Resume' : 'Preview'}</span>
                 </button>
+                {(isPlaying || position > 0) && !isLoadingAudio && (
+                  <button
+                    onClick={stopAudio}
+                    className="p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-800 transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    aria-label="Stop audio preview"
+                    title="Stop"
+                  >
+                    <Square className="w-3 h-3 fill-current" aria-hidden="true" />
+                  </button>
+                )}
+                {isLoadingAudio && <CancelButton onClick={cancelAudioLoad} label="Cancel audio generation" />}
               </div>
             </div>
 
@@ -430,28 +725,128 @@ export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, i
                </div>
             </div>
 
-            {/* Progress Bar */}
-            {(isPlaying || (audioBuffer && progress > 0)) && (
-              <div 
-                className="w-full h-1 bg-slate-800 rounded-full mb-3 overflow-hidden"
-                role="progressbar"
-                aria-valuemin={0}
-                aria-valuemax={100}
-                aria-valuenow={Math.round(progress)}
-              >
-                 <div 
-                   className="h-full bg-indigo-500 transition-all duration-100 ease-linear"
-                   style={{ width: `${progress}%` }}
-                 />
+            {audioError && <InlineError message={audioError} onRetry={toggleAudio} />}
+
+            {/* Fit to window */}
+            {fit && fit.kind !== 'fits' && !isMasterActive && (
+              <div className={`flex flex-wrap items-center gap-2 mb-3 px-3 py-2 rounded-lg border text-xs ${fit.kind === 'overrun' ? 'bg-amber-500/10 border-amber-500/20 text-amber-300' : 'bg-sky-500/10 border-sky-500/20 text-sky-300'}`}>
+                <Timer className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+                <span className="mr-auto">
+                  Reads in {fit.audioSeconds.toFixed(1)}s of a {fit.windowSeconds}s window
+                  ({fit.kind === 'overrun' ? '+' : '−'}{Math.abs(fit.audioSeconds - fit.windowSeconds).toFixed(1)}s)
+                </span>
+                {onRegenerate && (
+                  <button
+                    onClick={handleFitText}
+                    disabled={isRewriting}
+                    className="px-2 py-1 rounded bg-slate-900/60 hover:bg-slate-900 text-slate-200 font-medium disabled:opacity-50 transition-colors focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    {fit.kind === 'overrun' ? 'Tighten text' : 'Expand text'}
+                  </button>
+                )}
+                {fitPace && onSpeechPaceChange && (
+                  <button
+                    onClick={() => handlePaceFix(fitPace)}
+                    disabled={isLoadingAudio}
+                    className="px-2 py-1 rounded bg-slate-900/60 hover:bg-slate-900 text-slate-200 font-medium disabled:opacity-50 transition-colors focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                  >
+                    {fit.kind === 'overrun' ? 'Read faster' : 'Read slower'}
+                  </button>
+                )}
+                {onRetimeToSpeech && (
+                  <button
+                    onClick={handleRetime}
+                    disabled={isRetiming}
+                    className="flex items-center gap-1 px-2 py-1 rounded bg-slate-900/60 hover:bg-slate-900 text-slate-200 font-medium disabled:opacity-50 transition-colors focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    title="Resize every segment's window to its voiceover"
+                  >
+                    {isRetiming && <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />}
+                    {retimeProgress ? `Loading voiceovers ${retimeProgress.done}/${retimeProgress.total}` : 'Re-time script'}
+                  </button>
+                )}
+                {isRetiming && <CancelButton onClick={cancelRetime} label="Cancel re-timing" />}
+              </div>
+            )}
+            {retimeWarning && (
+              <p role="status" className="mb-3 flex items-center gap-1.5 text-xs text-amber-300">
+                <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+                {retimeWarning}
+              </p>
+            )}
+            {fitError && <InlineError message={fitError.message} onRetry={fitError.retry} />}
+
+            {/* Scrubber and review controls */}
+            {audioBuffer && (isPlaying || position > 0) && (
+              <div className="mb-3">
+                <div className="relative">
+                  {loopRange && (
+                    <div
+                      className="absolute top-1/2 -translate-y-1/2 h-1.5 bg-amber-400/30 rounded-full pointer-events-none"
+                      style={{ left: `${(loopRange[0] / audioDuration) * 100}%`, width: `${((loopRange[1] - loopRange[0]) / audioDuration) * 100}%` }}
+                      aria-hidden="true"
+                    />
+                  )}
+                  <input
+                    type="range"
+                    min={0}
+                    max={audioDuration}
+                    step={0.01}
+                    value={Math.min(position, audioDuration)}
+                    onChange={(e) => seekAudio(parseFloat(e.target.value))}
+                    className="relative w-full h-1 bg-slate-800 rounded-full appearance-none cursor-pointer accent-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    aria-label="Seek voiceover"
+                    aria-valuetext={`${formatTime(position)} of ${formatTime(audioDuration)}`}
+                  />
+                </div>
+                <div className="flex items-center justify-end gap-2 mt-1.5">
+                  <button
+                    onClick={() => seekAudio(position - SKIP_BACK_SECONDS)}
+                    className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold uppercase text-slate-400 hover:text-slate-200 hover:bg-slate-800 transition-colors focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    aria-label={`Back ${SKIP_BACK_SECONDS} seconds`}
+                  >
+                    <Rewind className="w-3 h-3" aria-hidden="true" />
+                    {SKIP_BACK_SECONDS}s
+                  </button>
+                  <button
+                    onClick={toggleLoop}
+                    className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold uppercase transition-colors focus:outline-none focus:ring-1 focus:ring-indigo-500 ${loopRange ? 'bg-amber-400/20 text-amber-300' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'}`}
+                    aria-pressed={!!loopRange}
+                    title={loopRange ? 'Stop looping' : 'Loop the phrase at the playhead'}
+                  >
+                    <Repeat className="w-3 h-3" aria-hidden="true" />
+                    Loop phrase
+                  </button>
+                  <select
+                    value={playbackRate}
+                    onChange={(e) => changePlaybackRate(parseFloat(e.target.value))}
+                    className="bg-slate-950 border border-slate-800 rounded px-1.5 py-0.5 text-[10px] font-bold text-slate-300 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    aria-label="Playback speed"
+                  >
+                    {PLAYBACK_RATES.map(rate => (
+                      <option key={rate} value={rate}>{rate}x</option>
+                    ))}
+                  </select>
+                </div>
               </div>
             )}
 
             <p className="text-lg leading-relaxed text-slate-200 font-medium">
-              "{segment.text}"
+              "{highlightPhrases(segment.text, brandViolations.flatMap(v => v.match ? [v.match] : []))}"
             </p>
+
+            {brandViolations.length > 0 && (
+              <ul className="mt-2 space-y-1" aria-label="Brand guide violations">
+                {brandViolations.map(v => (
+                  <li key={v.message} className="flex items-center text-xs text-rose-300">
+                    <BadgeCheck className="w-3 h-3 mr-1.5 flex-shrink-0 text-rose-400" aria-hidden="true" />
+                    {v.message}
+                  </li>
+                ))}
+              </ul>
+            )}
             
             {/* Subtitles */}
-            {(isPlaying || progress > 0) && (
+            {(isPlaying || position > 0 || isMasterActive) && (
                <div 
                  className="mt-4 bg-black/80 rounded-xl p-4 border border-slate-700/50 relative overflow-hidden animate-in fade-in zoom-in-95 duration-300"
                  aria-hidden="true" // Hidden from SR as main text is already read
@@ -514,10 +909,13 @@ export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, i
                     )}
                     <span>{isGeneratingImage ? 'Generating...' : 'Generate Visual'}</span>
                   </button>
+                  {isGeneratingImage && <CancelButton onClick={cancelImage} label="Cancel visual generation" />}
                 </div>
                )}
             </div>
 
+            {imageError && !isGeneratingImage && <InlineError message={imageError} onRetry={handleGenerateImage} />}
+
             {showPromptInput && !imageSrc && (
               <div className="mb-3 animate-in fade-in slide-in-from-top-1 duration-200">
                 <label htmlFor={`visual-prompt-${segment.startTime}`} className="sr-only">Edit Visual Prompt</label>
@@ -527,8 +925,15 @@ export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, i
                   onChange={(e) => setCustomPrompt(e.target.value)}
                   className="w-full bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 outline-none resize-none"
                   rows={3}
+                  maxLength={MAX_VISUAL_PROMPT_LENGTH}
                   placeholder="Describe the visual..."
                 />
+                {promptWarnings.length > 0 && (
+                  <p role="status" className="mt-1 flex items-center gap-1.5 text-xs text-amber-300">
+                    <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" aria-hidden="true" />
+                    Looks like instructions; it will only be used as an image description.
+                  </p>
+                )}
               </div>
             )}
             
@@ -558,7 +963,7 @@ export const ScriptSegmentCard: React.FC<ScriptSegmentCardProps> = ({ segment, i
           </div>
 
           {/* Share Options */}
-          {segment.label.toUpperCase() === 'CTA' && (
+          {isClosingSection && (
             <div className="mt-4 pt-4 border-t border-slate-800/50 animate-in fade-in slide-in-from-top-2">
               <div className="flex items-center justify-between">
                 <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">
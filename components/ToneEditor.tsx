@@ -0,0 +1,335 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ToneId, ToneProfile, AmbiencePreset, AmbienceWaveform, MusicStyle } from '../types';
+import { TONE_PROFILES, TTS_VOICES, DEFAULT_TONE_PROFILE } from '../constants';
+import { duplicateTone, MAX_TONE_NAME_LENGTH, MAX_TONE_DESCRIPTION_LENGTH } from '../services/toneService';
+import { playProceduralAmbience, createPreviewArrangement, AmbienceControl, DEFAULT_TEMPO } from '../services/ambience';
+import { getAudioContext, claimPlayback, releasePlayback } from '../services/audioUtils';
+import { Drama, X, Copy, Trash2, Lock, Check, Play, Square } from 'lucide-react';
+
+interface ToneEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customTones: ToneProfile[];
+  onChange: (tones: ToneProfile[]) => void;
+  selectedId: ToneId;
+  onSelect: (id: ToneId) => void;
+}
+
+const WAVEFORMS: AmbienceWaveform[] = ['sine', 'triangle', 'sawtooth', 'square'];
+const MUSIC_STYLES: { id: MusicStyle; label: string }[] = [
+  { id: 'drone', label: 'Drone' },
+  { id: 'pulse', label: 'Pulse' },
+  { id: 'beat', label: 'Beat' }
+];
+const PREVIEW_VOLUME = 0.3;
+const MIN_TEMPO = 60;
+const MAX_TEMPO = 180;
+const MIN_NOTE_HZ = 20;
+const MAX_NOTE_HZ = 2000;
+
+const formatNotes = (notes: number[]) => notes.join(', ');
+
+// Keeps the audible range; anything else typed into the list is dropped
+const parseNotes = (text: string): number[] =>
+  text.split(/[,\s]+/).map(Number).filter(n => Number.isFinite(n) && n >= MIN_NOTE_HZ && n <= MAX_NOTE_HZ);
+
+export const ToneEditor: React.FC<ToneEditorProps> = ({ isOpen, onClose, customTones, onChange, selectedId, onSelect }) => {
+  const [editingId, setEditingId] = useState<ToneId>(selectedId);
+  // Root notes are edited as free text and parsed as the user types
+  const [notesText, setNotesText] = useState('');
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const ambienceRef = useRef<AmbienceControl | null>(null);
+
+  const all = [...TONE_PROFILES, ...customTones];
+  const editing = all.find(t => t.id === editingId) || DEFAULT_TONE_PROFILE;
+  const readOnly = !!editing.builtIn;
+
+  // Stable identity so the shared playback slot can tell this preview apart from others
+  const stopPreview = useRef(() => {
+    ambienceRef.current?.stop();
+    ambienceRef.current = null;
+    setIsPreviewing(false);
+    releasePlayback(stopPreview.current);
+  });
+
+  // Open on the tone that is currently selected in the form
+  useEffect(() => {
+    if (isOpen) setEditingId(selectedId);
+    else stopPreview.current();
+  }, [isOpen]);
+
+  useEffect(() => {
+    setNotesText(formatNotes(editing.ambience.rootNotes));
+  }, [editing.id]);
+
+  // Edits are heard straight away while previewing
+  useEffect(() => {
+    if (!isPreviewing) return;
+    ambienceRef.current?.stop();
+    // Cycles through every section mood so the changes between them can be heard
+    ambienceRef.current = playProceduralAmbience(getAudioContext(), editing.ambience, PREVIEW_VOLUME, createPreviewArrangement(editing.ambience.tempo));
+  }, [isPreviewing, editing.ambience]);
+
+  useEffect(() => () => stopPreview.current(), []);
+
+  if (!isOpen) return null;
+
+  const updateEditing = (changes: Partial<ToneProfile>) => {
+    onChange(customTones.map(t => t.id === editing.id ? { ...t, ...changes } : t));
+  };
+
+  const updateAmbience = (changes: Partial<AmbiencePreset>) => {
+    updateEditing({ ambience: { ...editing.ambience, ...changes } });
+  };
+
+  const handleNotesChange = (text: string) => {
+    setNotesText(text);
+    const notes = parseNotes(text);
+    if (notes.length > 0) updateAmbience({ rootNotes: notes });
+  };
+
+  const togglePreview = async () => {
+    if (isPreviewing) {
+      stopPreview.current();
+      return;
+    }
+    claimPlayback(stopPreview.current);
+    const ctx = getAudioContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    setIsPreviewing(true);
+  };
+
+  const handleDuplicate = () => {
+    const copy = duplicateTone(editing);
+    onChange([...customTones, copy]);
+    setEditingId(copy.id);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the "${editing.name}" tone?`)) return;
+    onChange(customTones.filter(t => t.id !== editing.id));
+    if (selectedId === editing.id) onSelect(DEFAULT_TONE_PROFILE.id);
+    setEditingId(DEFAULT_TONE_PROFILE.id);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[60]" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tone-editor-title"
+        className="fixed inset-x-4 top-8 bottom-8 sm:inset-x-auto sm:left-1/2 sm:-translate-x-1/2 sm:w-[52rem] bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl z-[70] flex flex-col overflow-hidden"
+      >
+        <div className="p-5 border-b border-slate-800 flex items-center justify-between bg-slate-950/50">
+          <h2 id="tone-editor-title" className="text-lg font-bold text-white flex items-center">
+            <Drama className="w-5 h-5 mr-2 text-indigo-400" aria-hidden="true" />
+            Tones
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            aria-label="Close tone editor"
+          >
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex flex-col sm:flex-row overflow-hidden">
+          {/* Tone List */}
+          <div className="sm:w-60 border-b sm:border-b-0 sm:border-r border-slate-800 overflow-y-auto p-3 space-y-1" role="listbox" aria-label="Tones">
+            {all.map(t => (
+              <button
+                key={t.id}
+                role="option"
+                aria-selected={t.id === editing.id}
+                onClick={() => setEditingId(t.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500 ${
+                  t.id === editing.id ? 'bg-indigo-500/10 text-indigo-300' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+                }`}
+              >
+                <span className="flex items-center justify-between">
+                  <span className="truncate">{t.name || 'Untitled'}</span>
+                  {t.builtIn && <Lock className="w-3 h-3 shrink-0 text-slate-600" aria-label="Built-in" />}
+                </span>
+                <span className="block text-[10px] text-slate-500 mt-0.5">{t.voiceName} · {t.ambience.waveform} · {t.ambience.style ?? 'drone'}</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Tone Detail */}
+          <div className="flex-1 overflow-y-auto p-5 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => { onSelect(editing.id); onClose(); }}
+                className="flex items-center gap-1.5 bg-indigo-600 hover:bg-indigo-500 text-white px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <Check className="w-3.5 h-3.5" aria-hidden="true" />
+                {selectedId === editing.id ? 'Selected' : 'Use Tone'}
+              </button>
+              <button
+                onClick={handleDuplicate}
+                className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <Copy className="w-3.5 h-3.5" aria-hidden="true" />
+                Duplicate
+              </button>
+              <button
+                onClick={togglePreview}
+                aria-pressed={isPreviewing}
+                className="flex items-center gap-1.5 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                {isPreviewing ? <Square className="w-3.5 h-3.5 fill-current" aria-hidden="true" /> : <Play className="w-3.5 h-3.5 fill-current" aria-hidden="true" />}
+                {isPreviewing ? 'Stop Ambience' : 'Preview Ambience'}
+              </button>
+              {!readOnly && (
+                <button
+                  onClick={handleDelete}
+                  className="flex items-center gap-1.5 text-slate-500 hover:text-red-400 px-3 py-1.5 rounded-lg text-xs font-bold uppercase transition-colors focus:outline-none focus:ring-2 focus:ring-red-500"
+                >
+                  <Trash2 className="w-3.5 h-3.5" aria-hidden="true" />
+                  Delete
+                </button>
+              )}
+              {readOnly && <span className="text-xs text-slate-500">Built-in tones are read-only. Duplicate one to customize it.</span>}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label htmlFor="tone-name" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Name</label>
+                <input
+                  id="tone-name"
+                  type="text"
+                  value={editing.name}
+                  onChange={(e) => updateEditing({ name: e.target.value })}
+                  maxLength={MAX_TONE_NAME_LENGTH}
+                  disabled={readOnly}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="tone-voice" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Voice</label>
+                <select
+                  id="tone-voice"
+                  value={editing.voiceName}
+                  onChange={(e) => updateEditing({ voiceName: e.target.value })}
+                  disabled={readOnly}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                >
+                  {TTS_VOICES.map(v => <option key={v.name} value={v.name}>{v.name} ({v.description})</option>)}
+                </select>
+              </div>
+            </div>
+
+            {!readOnly && (
+              <div className="space-y-1">
+                <label htmlFor="tone-description" className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Prompt description</label>
+                <textarea
+                  id="tone-description"
+                  value={editing.description}
+                  onChange={(e) => updateEditing({ description: e.target.value })}
+                  maxLength={MAX_TONE_DESCRIPTION_LENGTH}
+                  rows={3}
+                  placeholder="deadpan understatement, dry asides, never exclamation marks"
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+                />
+                <p className="text-xs text-slate-500">Sent to the model with the name wherever the tone is used.</p>
+              </div>
+            )}
+
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">Ambience</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <label htmlFor="tone-waveform" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider">Waveform</label>
+                <select
+                  id="tone-waveform"
+                  value={editing.ambience.waveform}
+                  onChange={(e) => updateAmbience({ waveform: e.target.value as AmbienceWaveform })}
+                  disabled={readOnly}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                >
+                  {WAVEFORMS.map(w => <option key={w} value={w}>{w}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1 col-span-2 sm:col-span-1">
+                <label htmlFor="tone-notes" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider">Root notes (Hz)</label>
+                <input
+                  id="tone-notes"
+                  type="text"
+                  value={notesText}
+                  onChange={(e) => handleNotesChange(e.target.value)}
+                  onBlur={() => setNotesText(formatNotes(editing.ambience.rootNotes))}
+                  disabled={readOnly}
+                  placeholder="110, 164.81, 220"
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-sm font-mono text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="tone-lfo" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider">LFO rate (Hz)</label>
+                <input
+                  id="tone-lfo"
+                  type="number"
+                  min={0}
+                  max={20}
+                  step={0.5}
+                  value={editing.ambience.lfoRate}
+                  onChange={(e) => updateAmbience({ lfoRate: Math.max(0, Math.min(20, Number(e.target.value) || 0)) })}
+                  disabled={readOnly}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-sm font-mono text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                />
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="tone-gain" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider">Gain</label>
+                <input
+                  id="tone-gain"
+                  type="number"
+                  min={0}
+                  max={0.2}
+                  step={0.01}
+                  value={editing.ambience.gain}
+                  onChange={(e) => updateAmbience({ gain: Math.max(0, Math.min(0.2, Number(e.target.value) || 0)) })}
+                  disabled={readOnly}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-sm font-mono text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <label htmlFor="tone-style" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider">Style</label>
+                <select
+                  id="tone-style"
+                  value={editing.ambience.style ?? 'drone'}
+                  onChange={(e) => updateAmbience({ style: e.target.value as MusicStyle })}
+                  disabled={readOnly}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-sm text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                >
+                  {MUSIC_STYLES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor="tone-tempo" className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider">Tempo (BPM)</label>
+                <input
+                  id="tone-tempo"
+                  type="number"
+                  min={MIN_TEMPO}
+                  max={MAX_TEMPO}
+                  step={1}
+                  value={editing.ambience.tempo ?? DEFAULT_TEMPO}
+                  onChange={(e) => updateAmbience({ tempo: Math.min(MAX_TEMPO, Math.round(Number(e.target.value)) || 0) })}
+                  onBlur={() => updateAmbience({ tempo: Math.max(MIN_TEMPO, editing.ambience.tempo || DEFAULT_TEMPO) })}
+                  disabled={readOnly || (editing.ambience.style ?? 'drone') === 'drone'}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-sm font-mono text-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              One oscillator plays each root note. The LFO wobbles the first note's pitch; set it to 0 for a steady pad.
+              Pulse adds a kick and Beat adds hi-hats too, changing chords per section with a riser into the call to action.
+              Every style ducks under the voiceover.
+            </p>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { BudgetMode, ModelPrice, UsageCategory, UsageLine } from '../types';
+import { Coins, ChevronDown, ChevronUp, RotateCcw, HardDrive, Trash2 } from 'lucide-react';
+import { getBudget, setBudget, getModelPrices, setModelPrices, resetModelPrices, summarizeUsage, formatCost } from '../services/usageService';
+import { getMediaCacheStats, clearMediaCache, MediaCacheStats, MAX_CACHE_BYTES } from '../services/mediaCache';
+
+interface UsagePanelProps {
+  usage: UsageLine[];
+  onReset: () => void;
+}
+
+export const USAGE_CATEGORY_LABELS: Record<UsageCategory, string> = {
+  script: 'Script',
+  tts: 'Voiceover',
+  image: 'Image',
+  voice: 'Voice analysis'
+};
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatTokens = (n: number) => n >= 10000 ? `${Math.round(n / 1000)}k` : n.toLocaleString();
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ usage, onReset }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [budget, setBudgetState] = useState(getBudget);
+  const [prices, setPricesState] = useState<Record<string, ModelPrice>>(getModelPrices);
+  const [cacheStats, setCacheStats] = useState<MediaCacheStats | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+  const totals = summarizeUsage(usage);
+  const overBudget = budget.limitUsd !== null && totals.costUsd > budget.limitUsd;
+
+  // Read when the details open; the cache changes too often to keep the figures live
+  useEffect(() => {
+    if (expanded) getMediaCacheStats().then(setCacheStats);
+  }, [expanded]);
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    try {
+      await clearMediaCache();
+    } catch (e) {
+      console.error("Failed to clear media cache:", e);
+    }
+    setCacheStats(await getMediaCacheStats());
+    setIsClearingCache(false);
+  };
+
+  const updateBudget = (limitUsd: number | null, mode: BudgetMode) => {
+    const updated = { limitUsd, mode };
+    setBudget(updated);
+    setBudgetState(updated);
+  };
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed < 0) return;
+    const updated = { ...prices, [model]: { ...prices[model], [field]: parsed } };
+    setModelPrices(updated);
+    setPricesState(updated);
+  };
+
+  const handleResetPrices = () => {
+    resetModelPrices();
+    setPricesState(getModelPrices());
+  };
+
+  return (
+    <section className="p-4 border-b border-slate-800 bg-slate-950/30" aria-labelledby="usage-title">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between text-left rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        aria-expanded={expanded}
+        aria-controls="usage-details"
+      >
+        <span id="usage-title" className="flex items-center text-sm font-bold text-slate-200">
+          <Coins className="w-4 h-4 mr-2 text-amber-400" aria-hidden="true" />
+          Session usage
+        </span>
+        <span className="flex items-center gap-2 text-xs">
+          <span className={`font-mono font-bold ${overBudget ? 'text-red-400' : 'text-amber-300'}`}>
+            {formatCost(totals.costUsd)}
+            {budget.limitUsd !== null && <span className="text-slate-500 font-normal"> / {formatCost(budget.limitUsd)}</span>}
+          </span>
+          <span className="text-slate-500">{totals.calls} {totals.calls === 1 ? 'call' : 'calls'}</span>
+          {expanded ? <ChevronUp className="w-4 h-4 text-slate-500" aria-hidden="true" /> : <ChevronDown className="w-4 h-4 text-slate-500" aria-hidden="true" />}
+        </span>
+      </button>
+
+      {expanded && (
+        <div id="usage-details" className="mt-4 space-y-4">
+          {usage.length > 0 ? (
+            <table className="w-full text-xs text-left">
+              <caption className="sr-only">Calls and tokens per model this session</caption>
+              <thead className="text-[10px] uppercase tracking-wider text-slate-500">
+                <tr>
+                  <th scope="col" className="py-1 pr-2">Call</th>
+                  <th scope="col" className="py-1 pr-2">Calls</th>
+                  <th scope="col" className="py-1 pr-2">Tokens in / out</th>
+                  <th scope="col" className="py-1 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {usage.map(line => (
+                  <tr key={`${line.category}-${line.model}`}>
+                    <td className="py-1.5 pr-2 text-slate-300">
+                      {USAGE_CATEGORY_LABELS[line.category]}
+                      <span className="block text-[10px] text-slate-500 font-mono">{line.model}</span>
+                    </td>
+                    <td className="py-1.5 pr-2 font-mono text-slate-400">{line.calls}{line.failedCalls ? ` (${line.failedCalls} failed)` : ''}</td>
+                    <td className="py-1.5 pr-2 font-mono text-slate-400">{formatTokens(line.inputTokens)} / {formatTokens(line.outputTokens)}</td>
+                    <td className="py-1.5 text-right font-mono text-amber-300">{formatCost(line.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-xs text-slate-500">No billable calls yet this session. The offline provider is free.</p>
+          )}
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label htmlFor="budget-limit" className="block text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1">Session budget (USD)</label>
+              <input
+                id="budget-limit"
+                type="number"
+                min={0}
+                step={0.05}
+                value={budget.limitUsd ?? ''}
+                placeholder="No cap"
+                onChange={(e) => updateBudget(e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0), budget.mode)}
+                className="w-28 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="budget-mode" className="block text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1">When exceeded</label>
+              <select
+                id="budget-mode"
+                value={budget.mode}
+                onChange={(e) => updateBudget(budget.limitUsd, e.target.value as BudgetMode)}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="warn">Warn</option>
+                <option value="block">Block the call</option>
+              </select>
+            </div>
+            <button
+              onClick={onReset}
+              disabled={usage.length === 0}
+              className="flex items-center gap-1 text-xs text-slate-400 hover:text-white px-2 py-1.5 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+            >
+              <RotateCcw className="w-3 h-3" aria-hidden="true" /> Reset session
+            </button>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Prices (USD per 1M tokens)</h3>
+              <button onClick={handleResetPrices} className="text-[10px] text-slate-500 hover:text-slate-300 focus:outline-none focus:ring-2 focus:ring-indigo-500 rounded px-1">
+                Restore defaults
+              </button>
+            </div>
+            <div className="space-y-1.5">
+              {Object.keys(prices).map(model => (
+                <div key={model} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 font-mono text-slate-400 truncate" title={model}>{model}</span>
+                  <label className="sr-only" htmlFor={`price-in-${model}`}>{model} input price</label>
+                  <input
+                    id={`price-in-${model}`}
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={prices[model].inputPerMillion}
+                    onChange={(e) => updatePrice(model, 'inputPerMillion', e.target.value)}
+                    className="w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    title="Input"
+                  />
+                  <label className="sr-only" htmlFor={`price-out-${model}`}>{model} output price</label>
+                  <input
+                    id={`price-out-${model}`}
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={prices[model].outputPerMillion}
+                    onChange={(e) => updatePrice(model, 'outputPerMillion', e.target.value)}
+                    className="w-16 bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    title="Output"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="mt-1 text-[10px] text-slate-600">Input / output. New prices apply to later calls; recorded costs stay as they were.</p>
+          </div>
+
+          <div className="flex items-center justify-between gap-3 text-xs">
+            <span className="flex items-center text-slate-400">
+              <HardDrive className="w-3.5 h-3.5 mr-1.5 text-slate-500" aria-hidden="true" />
+              Media cache: {cacheStats ? `${cacheStats.entries} ${cacheStats.entries === 1 ? 'item' : 'items'}, ${formatMegabytes(cacheStats.bytes)} of ${formatMegabytes(MAX_CACHE_BYTES)}` : '…'}
+            </span>
+            <button
+              onClick={handleClearCache}
+              disabled={isClearingCache || !cacheStats || cacheStats.entries === 0}
+              className="flex items-center gap-1 text-slate-400 hover:text-red-400 px-2 py-1.5 rounded focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50"
+              title="Voiceovers and images are regenerated (and billed) the next time they are needed"
+            >
+              <Trash2 className="w-3 h-3" aria-hidden="true" /> Clear media cache
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,328 @@
+import { AmbiencePreset, MusicStyle, ScriptSegment } from "../types";
+
+export type SectionMood = 'neutral' | 'tension' | 'lift' | 'cta';
+
+export interface MusicSection {
+  start: number; // Seconds on the arrangement's clock
+  mood: SectionMood;
+}
+
+export interface MusicArrangement {
+  sections: MusicSection[];
+  duration?: number; // Seconds; open-ended when absent
+  repeat?: boolean; // Loop the sections every `duration` seconds, for previews
+}
+
+export interface AmbienceControl {
+  stop: () => void;
+  gainNode: GainNode;
+  // Ducks the music under speech spans given in seconds from now, replacing any earlier ducking
+  duckSpeech: (spans: [number, number][]) => void;
+}
+
+// Depth of the LFO pitch wobble, in cents
+const LFO_DEPTH_CENTS = 50;
+const FADE_OUT_SECONDS = 1;
+
+export const DEFAULT_TEMPO = 100;
+
+// Music level under speech, as a fraction of the chosen volume
+const DUCK_RATIO = 0.3;
+const DUCK_ATTACK_SECONDS = 0.15;
+const DUCK_RELEASE_SECONDS = 0.4;
+
+// Bars are four beats, split into eight eighth-note steps for the drum patterns
+const STEPS_PER_BAR = 8;
+const KICK_LEVEL = 0.15;
+const HAT_LEVEL = 0.03;
+const HAT_CUTOFF_HZ = 7000;
+const RISER_LEVEL = 0.05;
+const RISER_BARS = 2;
+// Bars are queued this far ahead of the playhead on a live context
+const SCHEDULE_AHEAD_SECONDS = 0.5;
+const SCHEDULER_INTERVAL_MS = 100;
+
+const DEFAULT_ARRANGEMENT: MusicArrangement = { sections: [{ start: 0, mood: 'neutral' }] };
+
+// Semitones the whole pad moves by on each bar of a section, cycling
+const PROGRESSIONS: Record<SectionMood, number[]> = {
+  neutral: [0, 5, 0, 7],
+  tension: [0, 1, 0, 1],
+  lift: [0, 7, 9, 5],
+  cta: [5, 7, 12, 12]
+};
+
+// Pad lowpass per section: muffled under the problem, opening up at the solution
+const CUTOFFS: Record<SectionMood, number> = { neutral: 1400, tension: 700, lift: 2400, cta: 2400 };
+
+// Eighth-note steps that get a kick or a hi-hat, per rhythmic style and section
+const PATTERNS: Record<Exclude<MusicStyle, 'drone'>, Record<SectionMood, { kick: number[]; hat: number[] }>> = {
+  pulse: {
+    neutral: { kick: [0, 4], hat: [] },
+    tension: { kick: [0, 2, 4, 6], hat: [] },
+    lift: { kick: [0, 4], hat: [2, 6] },
+    cta: { kick: [0, 2, 4, 6], hat: [2, 6] }
+  },
+  beat: {
+    neutral: { kick: [0, 3, 4], hat: [1, 3, 5, 7] },
+    tension: { kick: [0, 4], hat: [0, 1, 2, 3, 4, 5, 6, 7] },
+    lift: { kick: [0, 2, 4, 6], hat: [1, 3, 5, 7] },
+    cta: { kick: [0, 2, 4, 6], hat: [0, 1, 2, 3, 4, 5, 6, 7] }
+  }
+};
+
+// Section labels matched to a mood; the closing segment is always treated as the call to action
+const MOOD_RULES: { mood: SectionMood; pattern: RegExp }[] = [
+  { mood: 'cta', pattern: /\bCTA\b|CALL[\s-]*TO[\s-]*ACTION|OUTRO/ },
+  { mood: 'tension', pattern: /PROBLEM|PAIN|STRUGGLE|AGITAT|CONFLICT|STAKES/ },
+  { mood: 'lift', pattern: /SOLUTION|\bFIX\b|ANSWER|TECHNIQUE|PAYOFF|REVEAL|RESOLUTION|DEMO/ }
+];
+
+export const getSectionMood = (label: string, isLast: boolean): SectionMood =>
+  isLast ? 'cta' : MOOD_RULES.find(r => r.pattern.test(label.toUpperCase()))?.mood ?? 'neutral';
+
+// One section per segment on the script's clock
+export const arrangeForScript = (segments: ScriptSegment[], duration: number): MusicArrangement => ({
+  sections: segments
+    .map((s, i) => ({ start: s.startTime, mood: getSectionMood(s.label, i === segments.length - 1) }))
+    .sort((a, b) => a.start - b.start),
+  duration
+});
+
+// Two bars of each mood in script order, looping, so a tone's whole bed can be heard in the editor
+export const createPreviewArrangement = (tempo: number = DEFAULT_TEMPO): MusicArrangement => {
+  const bars = 2 * (240 / tempo);
+  const moods: SectionMood[] = ['neutral', 'tension', 'lift', 'cta'];
+  return { sections: moods.map((mood, i) => ({ start: i * bars, mood })), duration: moods.length * bars, repeat: true };
+};
+
+// The section playing at `seconds` on the arrangement's clock, and how long it has been playing
+const findSection = (arrangement: MusicArrangement, seconds: number): { mood: SectionMood; elapsed: number } => {
+  const { sections, duration, repeat } = arrangement;
+  const local = repeat && duration ? ((seconds % duration) + duration) % duration : seconds;
+  let section = sections[0];
+  sections.forEach(s => {
+    if (s.start <= local) section = s;
+  });
+  return { mood: section?.mood ?? 'neutral', elapsed: section ? Math.max(0, local - section.start) : 0 };
+};
+
+// Speech spans, with ones too close to release and re-duck between them merged into one
+const mergeSpans = (spans: [number, number][]): [number, number][] =>
+  spans
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0])
+    .reduce((merged: [number, number][], span) => {
+      const last = merged[merged.length - 1];
+      if (last && span[0] <= last[1] + DUCK_RELEASE_SECONDS + DUCK_ATTACK_SECONDS) last[1] = Math.max(last[1], span[1]);
+      else merged.push([span[0], span[1]]);
+      return merged;
+    }, []);
+
+/**
+ * Automates the duck gain from `now`: down to DUCK_RATIO under each span and back up after it.
+ * Whatever was scheduled before is dropped, so a seek or pause can simply pass the new spans.
+ */
+const scheduleDucking = (gain: AudioParam, now: number, spans: [number, number][]) => {
+  let level = gain.value;
+  let time = now;
+  gain.cancelScheduledValues(now);
+  gain.setValueAtTime(level, now);
+  for (const [start, end] of mergeSpans(spans)) {
+    if (now + end <= time) continue;
+    const attackStart = Math.max(time, now + start - DUCK_ATTACK_SECONDS);
+    const duckedAt = Math.max(now + start, attackStart + 0.05);
+    const releaseStart = Math.max(now + end, duckedAt);
+    gain.setValueAtTime(level, attackStart);
+    gain.linearRampToValueAtTime(DUCK_RATIO, duckedAt);
+    gain.setValueAtTime(DUCK_RATIO, releaseStart);
+    gain.linearRampToValueAtTime(1, releaseStart + DUCK_RELEASE_SECONDS);
+    level = 1;
+    time = releaseStart + DUCK_RELEASE_SECONDS;
+  }
+  if (level !== 1) gain.linearRampToValueAtTime(1, now + DUCK_RELEASE_SECONDS);
+};
+
+const createNoiseBuffer = (ctx: BaseAudioContext): AudioBuffer => {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+// Sine thump sweeping down from 150Hz
+const playKick = (ctx: BaseAudioContext, output: AudioNode, time: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.frequency.setValueAtTime(150, time);
+  osc.frequency.exponentialRampToValueAtTime(45, time + 0.12);
+  gain.gain.setValueAtTime(KICK_LEVEL, time);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + 0.3);
+  osc.connect(gain);
+  gain.connect(output);
+  osc.start(time);
+  osc.stop(time + 0.3);
+};
+
+// A short burst of high-passed noise
+const playHat = (ctx: BaseAudioContext, output: AudioNode, noise: AudioBuffer, time: number) => {
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  source.buffer = noise;
+  filter.type = 'highpass';
+  filter.frequency.value = HAT_CUTOFF_HZ;
+  gain.gain.setValueAtTime(HAT_LEVEL, time);
+  gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+  source.connect(filter);
+  filter.connect(gain);
+  gain.connect(output);
+  source.start(time, Math.random() * 0.5, 0.06);
+};
+
+// Noise swelling through a rising bandpass, cut off on the downbeat it leads into
+const playRiser = (ctx: BaseAudioContext, output: AudioNode, noise: AudioBuffer, start: number, end: number) => {
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  source.buffer = noise;
+  source.loop = true;
+  filter.type = 'bandpass';
+  filter.frequency.setValueAtTime(300, start);
+  filter.frequency.exponentialRampToValueAtTime(6000, end);
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(RISER_LEVEL, end);
+  gain.gain.setValueAtTime(0, end);
+  source.connect(filter);
+  filter.connect(gain);
+  gain.connect(output);
+  source.start(start);
+  source.stop(end);
+};
+
+/**
+ * Starts a tone's background music. Every style plays one oscillator per root note, with an
+ * optional LFO wobbling the first note's pitch; the drone style stops there. Pulse and beat styles
+ * add a kick (and for beat, hi-hats) at the preset's tempo, move the pad through a chord
+ * progression and filter per section of `arrangement`, and bring in a riser before the call to
+ * action. `offset` is where on the arrangement's clock to start, for seeking.
+ *
+ * `gainNode` is the master level, so callers can follow the volume slider; `duckSpeech` dips the
+ * bed under the voiceover; `stop` fades out over a second. Also works on an OfflineAudioContext
+ * for export, where the whole render length is scheduled up front.
+ */
+export const playProceduralAmbience = (
+  ctx: BaseAudioContext,
+  preset: AmbiencePreset,
+  volume: number,
+  arrangement: MusicArrangement = DEFAULT_ARRANGEMENT,
+  offset: number = 0
+): AmbienceControl => {
+  const masterGain = ctx.createGain();
+  masterGain.gain.value = volume;
+  masterGain.connect(ctx.destination);
+  const duckGain = ctx.createGain();
+  duckGain.connect(masterGain);
+
+  const style = preset.style ?? 'drone';
+  const now = ctx.currentTime;
+  let padInput: AudioNode = duckGain;
+  let filter: BiquadFilterNode | null = null;
+  if (style !== 'drone') {
+    filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = CUTOFFS[findSection(arrangement, offset).mood];
+    filter.connect(duckGain);
+    padInput = filter;
+  }
+
+  const oscillators: OscillatorNode[] = preset.rootNotes.map(freq => {
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = preset.waveform;
+    osc.frequency.value = freq;
+    gain.gain.value = preset.gain;
+    osc.connect(gain);
+    gain.connect(padInput);
+    osc.start(now);
+    return osc;
+  });
+  const pad = [...oscillators];
+
+  if (preset.lfoRate > 0 && oscillators.length > 0) {
+    const lfo = ctx.createOscillator();
+    lfo.frequency.value = preset.lfoRate;
+    const lfoGain = ctx.createGain();
+    lfoGain.gain.value = LFO_DEPTH_CENTS;
+    lfo.connect(lfoGain);
+    lfoGain.connect(oscillators[0].detune);
+    lfo.start(now);
+    oscillators.push(lfo);
+  }
+
+  let scheduler: ReturnType<typeof setInterval> | undefined;
+  if (style !== 'drone') {
+    const pattern = PATTERNS[style];
+    const barSeconds = 240 / (preset.tempo || DEFAULT_TEMPO);
+    const stepSeconds = barSeconds / STEPS_PER_BAR;
+    const { duration, repeat } = arrangement;
+    const lastBar = duration && !repeat ? Math.ceil(duration / barSeconds) : Infinity;
+    const noise = createNoiseBuffer(ctx);
+    const toTime = (seconds: number) => now + seconds - offset;
+    const moodOf = (bar: number) => findSection(arrangement, bar * barSeconds).mood;
+    const isCtaEntry = (bar: number) => bar < lastBar && moodOf(bar) === 'cta' && moodOf(bar - 1) !== 'cta';
+    const firstBar = Math.floor(offset / barSeconds);
+
+    const scheduleBar = (bar: number) => {
+      const barStart = bar * barSeconds;
+      const { mood, elapsed } = findSection(arrangement, barStart);
+      const changeAt = Math.max(now, toTime(barStart));
+      // Each section starts its progression from the top on its first downbeat
+      const progression = PROGRESSIONS[mood];
+      const chord = progression[Math.floor(elapsed / barSeconds + 1e-6) % progression.length];
+      pad.forEach(osc => osc.detune.setValueAtTime(chord * 100, changeAt));
+      filter?.frequency.setTargetAtTime(CUTOFFS[mood], changeAt, 0.3);
+
+      for (let step = 0; step < STEPS_PER_BAR; step++) {
+        const seconds = barStart + step * stepSeconds;
+        if (seconds < offset || (duration && !repeat && seconds >= duration)) continue;
+        if (pattern[mood].kick.includes(step)) playKick(ctx, duckGain, toTime(seconds));
+        if (pattern[mood].hat.includes(step)) playHat(ctx, duckGain, noise, toTime(seconds));
+      }
+
+      // Rise over the bars before a call to action; a shorter rise when starting just before one
+      for (let lead = RISER_BARS; lead >= 1; lead--) {
+        if (lead < RISER_BARS && bar !== firstBar) break;
+        if (isCtaEntry(bar + lead)) {
+          playRiser(ctx, duckGain, noise, changeAt, toTime((bar + lead) * barSeconds));
+          break;
+        }
+      }
+    };
+
+    let nextBar = firstBar;
+    const fill = (until: number) => {
+      while (nextBar < lastBar && toTime(nextBar * barSeconds) < until) scheduleBar(nextBar++);
+    };
+    if (ctx instanceof OfflineAudioContext) {
+      fill(ctx.length / ctx.sampleRate);
+    } else {
+      fill(now + SCHEDULE_AHEAD_SECONDS);
+      scheduler = setInterval(() => fill(ctx.currentTime + SCHEDULE_AHEAD_SECONDS), SCHEDULER_INTERVAL_MS);
+    }
+  }
+
+  return {
+    stop: () => {
+      clearInterval(scheduler);
+      const end = ctx.currentTime + FADE_OUT_SECONDS;
+      masterGain.gain.linearRampToValueAtTime(0, end);
+      oscillators.forEach(osc => osc.stop(end));
+      setTimeout(() => {
+        masterGain.disconnect();
+      }, FADE_OUT_SECONDS * 1000 + 100);
+    },
+    gainNode: masterGain,
+    duckSpeech: spans => scheduleDucking(duckGain.gain, ctx.currentTime, spans)
+  };
+};
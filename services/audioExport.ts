@@ -0,0 +1,123 @@
+import { AmbiencePreset, ScriptSegment } from "../types";
+import { arrangeForScript, playProceduralAmbience } from "./ambience";
+import { getSpeechSpans, getTimelineDuration } from "./timeline";
+
+export type ExportSampleRate = 24000 | 48000;
+
+export const EXPORT_SAMPLE_RATES: ExportSampleRate[] = [24000, 48000];
+
+export interface AudioStem {
+  filename: string;
+  buffer: AudioBuffer;
+}
+
+const END_FADE_SECONDS = 1;
+
+const createOfflineContext = (seconds: number, sampleRate: ExportSampleRate) =>
+  new OfflineAudioContext(1, Math.max(1, Math.ceil(seconds * sampleRate)), sampleRate);
+
+/**
+ * Renders the whole script offline: each segment's speech at its startTime, with the tone's
+ * music arranged to the script's sections underneath, ducked under every spoken word and faded
+ * out over the last second. Pass a null preset to render the voiceover alone.
+ */
+export const renderMix = (
+  segments: ScriptSegment[],
+  buffers: AudioBuffer[],
+  ambience: AmbiencePreset | null,
+  musicVolume: number,
+  sampleRate: ExportSampleRate
+): Promise<AudioBuffer> => {
+  const duration = getTimelineDuration(segments, buffers.map(b => b.duration));
+  const ctx = createOfflineContext(duration, sampleRate);
+
+  segments.forEach((segment, i) => {
+    if (!buffers[i]) return;
+    const source = ctx.createBufferSource();
+    source.buffer = buffers[i];
+    source.connect(ctx.destination);
+    source.start(segment.startTime);
+  });
+
+  if (ambience && musicVolume > 0) {
+    const music = playProceduralAmbience(ctx, ambience, musicVolume, arrangeForScript(segments, duration));
+    music.duckSpeech(getSpeechSpans(segments, buffers.map(b => b.duration)));
+    const fadeStart = Math.max(0, duration - END_FADE_SECONDS);
+    music.gainNode.gain.setValueAtTime(musicVolume, fadeStart);
+    music.gainNode.gain.linearRampToValueAtTime(0, duration);
+  }
+
+  return ctx.startRendering();
+};
+
+/**
+ * One file per segment, each the full length of the mix with the speech at its startTime, so
+ * every stem lines up when dropped at zero on an editing timeline. Ambience is left out.
+ */
+export const renderStems = async (
+  segments: ScriptSegment[],
+  buffers: AudioBuffer[],
+  sampleRate: ExportSampleRate
+): Promise<AudioStem[]> => {
+  const duration = getTimelineDuration(segments, buffers.map(b => b.duration));
+  const stems: AudioStem[] = [];
+  // Rendered one at a time to keep memory down on long scripts
+  for (let i = 0; i < segments.length; i++) {
+    if (!buffers[i]) continue;
+    const ctx = createOfflineContext(duration, sampleRate);
+    const source = ctx.createBufferSource();
+    source.buffer = buffers[i];
+    source.connect(ctx.destination);
+    source.start(segments[i].startTime);
+    const label = segments[i].label.replace(/[^a-z0-9]/gi, '-').toLowerCase();
+    stems.push({ filename: `${String(i + 1).padStart(2, '0')}-${label}`, buffer: await ctx.startRendering() });
+  }
+  return stems;
+};
+
+// 16-bit PCM WAV, clipping anything outside [-1, 1]
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const channels = buffer.numberOfChannels;
+  const frames = buffer.length;
+  const dataSize = frames * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+  let offset = 44;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.max(-1, Math.min(1, channelData[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
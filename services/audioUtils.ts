@@ -0,0 +1,52 @@
+// Shared Web Audio helpers used by every component that plays generated speech
+
+// Sample rate of the raw PCM returned by the TTS model
+export const TTS_SAMPLE_RATE = 24000;
+
+// Shared AudioContext singleton
+let sharedAudioContext: AudioContext | null = null;
+
+// Global callback to stop whatever is currently playing, so only one preview runs at a time
+let activeStopCallback: (() => void) | null = null;
+
+export const getAudioContext = () => {
+  if (!sharedAudioContext) {
+    sharedAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  }
+  return sharedAudioContext;
+};
+
+// Stops the current preview (if any) and registers `stop` as the new one
+export const claimPlayback = (stop: () => void) => {
+  if (activeStopCallback && activeStopCallback !== stop) activeStopCallback();
+  activeStopCallback = stop;
+};
+
+export const releasePlayback = (stop: () => void) => {
+  if (activeStopCallback === stop) activeStopCallback = null;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Converts 16-bit little-endian mono PCM into an AudioBuffer
+export const pcmToAudioBuffer = (data: Uint8Array, ctx: BaseAudioContext): AudioBuffer => {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const frameCount = dataInt16.length;
+  const buffer = ctx.createBuffer(1, frameCount, TTS_SAMPLE_RATE);
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < frameCount; i++) {
+    channelData[i] = dataInt16[i] / 32768.0;
+  }
+  return buffer;
+};
+
+export const decodeSpeech = (base64Audio: string, ctx: BaseAudioContext = getAudioContext()): AudioBuffer =>
+  pcmToAudioBuffer(base64ToBytes(base64Audio), ctx);
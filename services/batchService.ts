@@ -0,0 +1,210 @@
+import { BatchItem, BatchJob, Platform, Tone, ToneId } from "../types";
+import { clampDuration } from "./platformService";
+import { getCustomTones, getToneName } from "./toneService";
+import { detectInstructionLikeInput, sanitizeUserText, MAX_TOPIC_LENGTH } from "./inputSafety";
+
+const STORAGE_KEY = 'neuroviral_batch';
+
+export const MAX_BATCH_ITEMS = 30;
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export interface BatchDefaults {
+  tone: ToneId;
+  duration: number;
+  useSearch: boolean;
+  platform: Platform;
+}
+
+export interface ParsedBatch {
+  items: BatchItem[];
+  warnings: string[];
+}
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes and newlines inside quotes
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field.trim());
+  rows.push(row);
+
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+// Accepts the enum value, the enum key or the first word of the tone ("humorous", "URGENT", "Calm & Reassuring").
+// Custom tones match on their full name, ahead of the first-word fallback.
+export const matchTone = (raw: string): ToneId | undefined => {
+  const value = raw.trim().toLowerCase();
+  if (!value) return undefined;
+  const entries = Object.entries(Tone) as [string, Tone][];
+  const exact = entries.find(([key, tone]) => key.toLowerCase() === value || tone.toLowerCase() === value);
+  if (exact) return exact[1];
+  const custom = getCustomTones().find(t => t.name.trim().toLowerCase() === value);
+  if (custom) return custom.id;
+  return entries.find(([, tone]) => tone.toLowerCase().split(/\s+/)[0] === value.split(/\s+/)[0])?.[1];
+};
+
+const parseDuration = (raw: string | undefined): number | undefined => {
+  const seconds = parseInt((raw || '').replace(/s(ec(onds?)?)?$/i, ''), 10);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+const parseFlag = (raw: string | undefined): boolean | undefined => {
+  const value = (raw || '').trim().toLowerCase();
+  if (!value) return undefined;
+  if (['1', 'true', 'yes', 'y', 'search', 'research'].includes(value)) return true;
+  if (['0', 'false', 'no', 'n'].includes(value)) return false;
+  return undefined;
+};
+
+const HEADER_ALIASES: Record<string, keyof Pick<BatchItem, 'topic' | 'tone' | 'duration' | 'useSearch'>> = {
+  topic: 'topic',
+  tone: 'tone',
+  duration: 'duration',
+  seconds: 'duration',
+  search: 'useSearch',
+  usesearch: 'useSearch',
+  research: 'useSearch'
+};
+
+export const createBatchId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+/**
+ * Parses pasted lines or CSV text into queue items. Rows may be a bare topic or `topic, tone, duration, search`;
+ * a header row naming those columns allows any order. Missing or unrecognised values fall back to the defaults.
+ */
+export const parseBatchInput = (text: string, defaults: BatchDefaults): ParsedBatch => {
+  const warnings: string[] = [];
+  const rows = parseCsvRows(text);
+
+  let columns: (string | undefined)[] = ['topic', 'tone', 'duration', 'useSearch'];
+  const header = rows[0]?.map(cell => HEADER_ALIASES[cell.toLowerCase().replace(/[^a-z]/g, '')]);
+  const hasHeader = !!header && header.includes('topic');
+  if (hasHeader) {
+    columns = header;
+    rows.shift();
+  }
+  const col = (row: string[], name: string) => {
+    const index = columns.indexOf(name);
+    return index >= 0 ? row[index] : undefined;
+  };
+
+  const items: BatchItem[] = [];
+  rows.forEach((row, rowIndex) => {
+    const line = rowIndex + 1;
+    let topic = col(row, 'topic') || '';
+    const rawTone = col(row, 'tone');
+    const rawDuration = col(row, 'duration');
+    const rawSearch = col(row, 'useSearch');
+
+    let tone = rawTone ? matchTone(rawTone) : undefined;
+    let duration = parseDuration(rawDuration);
+    let useSearch = parseFlag(rawSearch);
+
+    // A pasted topic that happens to contain commas: nothing after the first comma is recognisable
+    if (!hasHeader && row.length > 1 && !tone && duration === undefined && useSearch === undefined) {
+      topic = row.join(', ');
+    } else {
+      if (rawTone && !tone) warnings.push(`Row ${line}: unknown tone "${rawTone}", using ${getToneName(defaults.tone)}`);
+      if (rawDuration && duration === undefined) warnings.push(`Row ${line}: invalid duration "${rawDuration}", using ${defaults.duration}s`);
+    }
+
+    const cleanTopic = sanitizeUserText(topic, MAX_TOPIC_LENGTH);
+    if (!cleanTopic) {
+      warnings.push(`Row ${line}: no topic, skipped`);
+      return;
+    }
+    // Imported files are the easiest way to smuggle instructions in, so flag them before queueing
+    detectInstructionLikeInput(topic).forEach(reason => warnings.push(`Row ${line}: ${reason.charAt(0).toLowerCase()}${reason.slice(1)}`));
+
+    const requested = duration ?? defaults.duration;
+    duration = clampDuration(defaults.platform, requested);
+    if (duration !== requested) warnings.push(`Row ${line}: duration clamped to ${duration}s for ${defaults.platform}`);
+
+    items.push({
+      id: createBatchId('item'),
+      topic: cleanTopic,
+      tone: tone ?? defaults.tone,
+      duration,
+      useSearch: useSearch ?? defaults.useSearch,
+      status: 'pending',
+      attempts: 0
+    });
+  });
+
+  if (items.length > MAX_BATCH_ITEMS) {
+    warnings.push(`Only the first ${MAX_BATCH_ITEMS} topics are queued`);
+    items.length = MAX_BATCH_ITEMS;
+  }
+
+  return { items, warnings };
+};
+
+// Items that were mid-flight when the page closed go back to the queue
+export const loadBatchJob = (): BatchJob | null => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return null;
+  try {
+    const job: BatchJob = JSON.parse(saved);
+    if (!job || !Array.isArray(job.items)) return null;
+    return {
+      ...job,
+      items: job.items.map(item => item.status === 'running' ? { ...item, status: 'pending' } : item)
+    };
+  } catch (e) {
+    console.error("Failed to parse batch job:", e);
+    return null;
+  }
+};
+
+export const saveBatchJob = (job: BatchJob | null) => {
+  if (job) localStorage.setItem(STORAGE_KEY, JSON.stringify(job));
+  else localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Runs tasks with at most `concurrency` in flight. `next` is asked for more work whenever a slot frees up,
+ * so items re-queued during the run are picked up; returning null ends that worker.
+ */
+export const runConcurrently = async (
+  concurrency: number,
+  next: () => (() => Promise<void>) | null,
+  isCancelled: () => boolean
+): Promise<void> => {
+  const worker = async () => {
+    while (!isCancelled()) {
+      const task = next();
+      if (!task) return;
+      await task();
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+};
@@ -0,0 +1,123 @@
+import { BrandProfile, BrandViolation, GeneratedScript } from "../types";
+import { sanitizeUserText } from "./inputSafety";
+import { getReadingGrade } from "./scriptAnalysis";
+
+const STORAGE_KEY = 'neuroviral_brands';
+
+export const MAX_PERSONA_LENGTH = 400;
+export const MAX_BRAND_RULE_LENGTH = 160;
+
+const isValidBrand = (b: any): b is BrandProfile =>
+  !!b && typeof b.id === 'string' && typeof b.name === 'string' &&
+  Array.isArray(b.bannedWords) && Array.isArray(b.disclaimers) && Array.isArray(b.ctaPhrases);
+
+export const loadBrandProfiles = (): BrandProfile[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isValidBrand) : [];
+  } catch (e) {
+    console.error("Failed to parse brand profiles:", e);
+    return [];
+  }
+};
+
+export const saveBrandProfiles = (profiles: BrandProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
+
+// Undefined means no brand: generation falls back to the persona template alone
+export const findBrandProfile = (id: string | undefined, profiles: BrandProfile[] = loadBrandProfiles()): BrandProfile | undefined =>
+  id ? profiles.find(b => b.id === id) : undefined;
+
+export const createBrandProfile = (): BrandProfile => ({
+  id: `brand-${Date.now().toString(36)}`,
+  name: 'New Brand',
+  persona: '',
+  bannedWords: [],
+  disclaimers: [],
+  ctaPhrases: [],
+  updatedAt: Date.now()
+});
+
+// Rules are typed by the user, so they are cleaned like any other input before reaching a prompt
+const cleanRules = (rules: string[]) => rules.map(r => sanitizeUserText(r, MAX_BRAND_RULE_LENGTH)).filter(Boolean);
+
+const quoteList = (items: string[]) => items.map(i => `"${i}"`).join(', ');
+
+// Appended to the system instruction after the persona template
+export const describeBrandPersona = (brand?: BrandProfile): string => {
+  const persona = brand ? sanitizeUserText(brand.persona, MAX_PERSONA_LENGTH) : '';
+  return persona ? `BRAND VOICE (${sanitizeUserText(brand!.name, MAX_BRAND_RULE_LENGTH)}): Write as ${persona}` : '';
+};
+
+/**
+ * Brand rules appended to generation and rewrite prompts. The same rules are checked locally by
+ * lintScript afterwards, because the model does not always follow them. Empty without a brand.
+ */
+export const describeBrandRequirement = (brand?: BrandProfile): string => {
+  if (!brand) return '';
+  const rules: string[] = [];
+  const banned = cleanRules(brand.bannedWords);
+  const disclaimers = cleanRules(brand.disclaimers);
+  const ctas = cleanRules(brand.ctaPhrases);
+  if (banned.length > 0) rules.push(`- Never use these words or phrases, in the spoken text or on-screen text: ${quoteList(banned)}.`);
+  if (disclaimers.length > 0) rules.push(`- The spoken text must include each of these disclaimers word for word: ${quoteList(disclaimers)}.`);
+  if (ctas.length > 0) rules.push(`- The closing call to action must use one of these phrasings: ${quoteList(ctas)}.`);
+  if (brand.maxReadingGrade) rules.push(`- Keep every segment at or below a US grade ${brand.maxReadingGrade} reading level: short sentences, plain words.`);
+  return rules.length > 0 ? `BRAND RULES:\n${rules.join('\n')}` : '';
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word, case-insensitive match that also works for accented letters; returns the text as written
+const findPhrase = (text: string, phrase: string): string | null =>
+  text.match(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, 'iu'))?.[0] ?? null;
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Checks a script against a brand profile: banned words per segment (spoken or on screen), reading
+ * grade per segment, disclaimers anywhere in the spoken text and the preferred CTA phrasing in the
+ * closing segment. Punctuation and case are ignored when looking for disclaimers and CTA phrases.
+ */
+export const lintScript = (script: GeneratedScript, brand: BrandProfile): BrandViolation[] => {
+  const violations: BrandViolation[] = [];
+  const banned = cleanRules(brand.bannedWords);
+
+  script.segments.forEach((segment, segmentIndex) => {
+    banned.forEach(word => {
+      const match = findPhrase(segment.text, word);
+      if (match) {
+        violations.push({ kind: 'banned-word', message: `Banned word "${word}"`, segmentIndex, match });
+      } else if (findPhrase(segment.visual, word)) {
+        violations.push({ kind: 'banned-word', message: `Banned word "${word}" in the visual`, segmentIndex });
+      }
+    });
+    if (brand.maxReadingGrade) {
+      const grade = getReadingGrade(segment.text);
+      if (grade > brand.maxReadingGrade) {
+        violations.push({ kind: 'reading-level', message: `Reading grade ${grade}, above the brand's ${brand.maxReadingGrade}`, segmentIndex });
+      }
+    }
+  });
+
+  const spoken = normalize(script.segments.map(s => s.text).join(' '));
+  cleanRules(brand.disclaimers).forEach(disclaimer => {
+    if (!spoken.includes(normalize(disclaimer))) {
+      violations.push({ kind: 'disclaimer', message: `Missing disclaimer: "${disclaimer}"` });
+    }
+  });
+
+  const ctas = cleanRules(brand.ctaPhrases);
+  const closingIndex = script.segments.length - 1;
+  if (ctas.length > 0 && closingIndex >= 0) {
+    const closing = normalize(script.segments[closingIndex].text);
+    if (!ctas.some(cta => closing.includes(normalize(cta)))) {
+      violations.push({ kind: 'cta', message: `CTA does not use a preferred phrase (${quoteList(ctas)})`, segmentIndex: closingIndex });
+    }
+  }
+
+  return violations;
+};
@@ -0,0 +1,128 @@
+export type GenerationErrorCode =
+  | 'MISSING_KEY'
+  | 'RATE_LIMIT'
+  | 'SAFETY_BLOCK'
+  | 'MALFORMED_RESPONSE'
+  | 'EMPTY_MEDIA'
+  | 'NETWORK'
+  | 'CANCELLED'
+  | 'BUDGET_EXCEEDED'
+  | 'UNKNOWN';
+
+// Codes that are worth retrying automatically; everything else needs a change from the user first
+const RETRYABLE_CODES: GenerationErrorCode[] = ['RATE_LIMIT', 'EMPTY_MEDIA', 'NETWORK'];
+
+export class GenerationError extends Error {
+  code: GenerationErrorCode;
+  retryable: boolean;
+  cause?: unknown;
+
+  constructor(code: GenerationErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = code;
+    this.retryable = RETRYABLE_CODES.includes(code);
+    this.cause = cause;
+  }
+}
+
+const USER_MESSAGES: Record<GenerationErrorCode, string> = {
+  MISSING_KEY: "API key is missing or invalid. Check your environment, or switch to the Offline Demo provider.",
+  RATE_LIMIT: "Rate limit or quota reached. Wait a moment and try again.",
+  SAFETY_BLOCK: "The request was blocked by safety filters. Try rephrasing the topic or prompt.",
+  MALFORMED_RESPONSE: "The model returned an unreadable response. Try again.",
+  EMPTY_MEDIA: "The model returned no media. Try again.",
+  NETWORK: "Network error. Check your connection and try again.",
+  CANCELLED: "Request cancelled.",
+  BUDGET_EXCEEDED: "This call would go over your session budget. Raise or remove the cap under Usage in the history panel.",
+  UNKNOWN: "Something went wrong. Please try again."
+};
+
+// Maps SDK, fetch and HTTP failures onto the taxonomy above
+export const classifyError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+  const message = error instanceof Error ? error.message : String(error);
+  const text = message.toLowerCase();
+
+  if ((error as any)?.name === 'AbortError') {
+    return new GenerationError('CANCELLED', message, error);
+  }
+  if (status === 429 || text.includes('resource_exhausted') || text.includes('quota') || text.includes('rate limit')) {
+    return new GenerationError('RATE_LIMIT', message, error);
+  }
+  if (status === 401 || status === 403 || text.includes('api key') || text.includes('api_key')) {
+    return new GenerationError('MISSING_KEY', message, error);
+  }
+  if (text.includes('safety') || text.includes('blocked')) {
+    return new GenerationError('SAFETY_BLOCK', message, error);
+  }
+  if (error instanceof SyntaxError) {
+    return new GenerationError('MALFORMED_RESPONSE', message, error);
+  }
+  if (
+    (status !== undefined && status >= 500) ||
+    (error instanceof TypeError && text.includes('fetch')) ||
+    text.includes('network') ||
+    text.includes('unavailable') ||
+    text.includes('timeout')
+  ) {
+    return new GenerationError('NETWORK', message, error);
+  }
+  return new GenerationError('UNKNOWN', message, error);
+};
+
+export const getErrorMessage = (error: unknown): string => USER_MESSAGES[classifyError(error).code];
+
+// Cancellation is user intent, not a failure, so callers usually swallow it instead of showing an error
+export const isCancelled = (error: unknown): boolean => classifyError(error).code === 'CANCELLED';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new GenerationError('CANCELLED', "Request cancelled");
+};
+
+interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new GenerationError('CANCELLED', "Request cancelled"));
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new GenerationError('CANCELLED', "Request cancelled"));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `operation`, retrying transient failures with exponential backoff and full jitter
+export const withRetry = async <T,>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { maxAttempts = 3, baseDelayMs = 800, maxDelayMs = 8000, signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation();
+    } catch (error) {
+      // An aborted request often surfaces as a network error, so the signal wins over the error's own type
+      const classified = signal?.aborted ? new GenerationError('CANCELLED', "Request cancelled", error) : classifyError(error);
+      if (!classified.retryable || attempt >= maxAttempts) throw classified;
+
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.random() * ceiling;
+      console.warn(`Retrying after ${classified.code} (attempt ${attempt}/${maxAttempts}) in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+    }
+  }
+};
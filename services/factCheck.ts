@@ -0,0 +1,109 @@
+import { GeneratedScript } from "../types";
+import { getKeywords, stemKeyword } from "./languageService";
+import { splitSentences } from "./scriptAnalysis";
+
+export type ClaimStatus = 'supported' | 'needs-review' | 'unsupported';
+
+export interface ScriptClaim {
+  segmentIndex: number;
+  text: string;
+  status: ClaimStatus;
+  sourceIndices: number[]; // Into script.sources; rendered as [1], [2]... citations
+  keyFactIndex?: number;
+  note: string;
+}
+
+// A sentence is treated as a factual claim when it contains a figure, cites research, names body or
+// brain mechanisms, or asserts cause and effect. The word lists are English; in other languages only figures are caught.
+const CLAIM_PATTERNS: RegExp[] = [
+  /\d/,
+  /\b(percent|half|twice|double|triple|times (more|less|faster|slower))\b/i,
+  /\b(stud(y|ies)|research(ers)?|scientists?|experiments?|trials?|surveys?|evidence|proven|published|according to)\b/i,
+  /\b(brain|neuro\w*|dopamine|serotonin|cortisol|melatonin|adrenaline|hormones?|cortex|amygdala|hippocampus|synap\w*|metabolism|immune|heart rate)\b/i,
+  /\b(causes?|triggers?|increases?|reduces?|lowers?|raises?|boosts?|releases?|linked to|leads? to|results? in)\b/i
+];
+
+const MIN_CLAIM_WORDS = 4;
+
+// Share of a claim's keywords that must appear in the evidence to count as a match, or as a partial one
+const SUPPORTED_OVERLAP = 0.5;
+const PARTIAL_OVERLAP = 0.25;
+
+const isClaim = (sentence: string): boolean =>
+  !sentence.trim().endsWith('?') &&
+  sentence.split(/\s+/).length >= MIN_CLAIM_WORDS &&
+  CLAIM_PATTERNS.some(pattern => pattern.test(sentence));
+
+const toStems = (text: string) => new Set(getKeywords(text).map(stemKeyword));
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// 1 when the evidence quotes the claim, otherwise the share of the claim's keywords found in the evidence
+const overlap = (claim: string, claimStems: Set<string>, evidence: string): number => {
+  const a = normalize(claim);
+  const b = normalize(evidence);
+  if (a && b.includes(a)) return 1;
+  if (claimStems.size === 0) return 0;
+  const evidenceStems = toStems(evidence);
+  let shared = 0;
+  claimStems.forEach(stem => { if (evidenceStems.has(stem)) shared++; });
+  return shared / claimStems.size;
+};
+
+const bestOverlap = (claim: string, claimStems: Set<string>, texts: string[]): number =>
+  Math.max(0, ...texts.map(text => overlap(claim, claimStems, text)));
+
+/**
+ * Extracts the factual claims in each segment and links them to the grounded response spans of
+ * `script.sources` or to `script.keyFacts`. A claim is supported when a source backs it directly, or
+ * when it restates a key fact that a source backs. Weak matches, and key facts with no source behind
+ * them, need review; anything with no match at all is unsupported.
+ */
+export const checkClaims = (script: GeneratedScript): ScriptClaim[] => {
+  const sources = script.sources || [];
+  const keyFacts = script.keyFacts || [];
+  const hasResearch = sources.length > 0 || keyFacts.length > 0;
+
+  // Sources that back each key fact, so a claim matching the fact inherits its citations
+  const keyFactSources = keyFacts.map(fact => {
+    const factStems = toStems(fact);
+    return sources
+      .map((source, index) => ({ index, score: bestOverlap(fact, factStems, source.excerpts || []) }))
+      .filter(({ score }) => score >= SUPPORTED_OVERLAP)
+      .map(({ index }) => index);
+  });
+
+  return script.segments.flatMap((segment, segmentIndex) =>
+    splitSentences(segment.text).filter(isClaim).map((text): ScriptClaim => {
+      const stems = toStems(text);
+      const sourceScores = sources.map((source, index) => ({ index, score: bestOverlap(text, stems, source.excerpts || []) }));
+      const direct = sourceScores.filter(({ score }) => score >= SUPPORTED_OVERLAP).map(({ index }) => index);
+      const partial = sourceScores.filter(({ score }) => score >= PARTIAL_OVERLAP).map(({ index }) => index);
+
+      const factScores = keyFacts.map(fact => overlap(text, stems, fact));
+      const factScore = Math.max(0, ...factScores);
+      const keyFactIndex = factScore >= PARTIAL_OVERLAP ? factScores.indexOf(factScore) : undefined;
+      const factSources = keyFactIndex !== undefined && factScore >= SUPPORTED_OVERLAP ? keyFactSources[keyFactIndex] : [];
+
+      if (direct.length > 0) {
+        return { segmentIndex, text, status: 'supported', sourceIndices: direct, keyFactIndex, note: 'Backed by a search source' };
+      }
+      if (factSources.length > 0) {
+        return { segmentIndex, text, status: 'supported', sourceIndices: factSources, keyFactIndex, note: 'Restates a key fact backed by a search source' };
+      }
+      if (keyFactIndex !== undefined && factScore >= SUPPORTED_OVERLAP) {
+        return { segmentIndex, text, status: 'needs-review', sourceIndices: [], keyFactIndex, note: 'Matches a key fact that no source backs' };
+      }
+      if (partial.length > 0 || keyFactIndex !== undefined) {
+        return { segmentIndex, text, status: 'needs-review', sourceIndices: partial, keyFactIndex, note: 'Only partly matches the research; check the wording' };
+      }
+      return {
+        segmentIndex,
+        text,
+        status: 'unsupported',
+        sourceIndices: [],
+        note: hasResearch ? 'No source or key fact mentions this' : 'Generated without research'
+      };
+    })
+  );
+};
@@ -0,0 +1,59 @@
+import { StoryFramework, FrameworkSection } from "../types";
+import { DEFAULT_FRAMEWORK, STORY_FRAMEWORKS } from "../constants";
+
+const STORAGE_KEY = 'neuroviral_frameworks';
+
+export const loadCustomFrameworks = (): StoryFramework[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isValidFramework) : [];
+  } catch (e) {
+    console.error("Failed to parse custom frameworks:", e);
+    return [];
+  }
+};
+
+export const saveCustomFrameworks = (frameworks: StoryFramework[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(frameworks.filter(f => !f.builtIn)));
+};
+
+const isValidFramework = (f: any): f is StoryFramework =>
+  !!f && typeof f.id === 'string' && typeof f.name === 'string' && Array.isArray(f.sections) && f.sections.length > 0;
+
+// Built-ins first, then the user's own frameworks
+export const getAllFrameworks = (custom: StoryFramework[] = loadCustomFrameworks()): StoryFramework[] => [...STORY_FRAMEWORKS, ...custom];
+
+export const findFramework = (id: string | undefined, frameworks: StoryFramework[] = getAllFrameworks()): StoryFramework =>
+  frameworks.find(f => f.id === id) || DEFAULT_FRAMEWORK;
+
+export const findSection = (framework: StoryFramework, label: string): FrameworkSection | undefined =>
+  framework.sections.find(s => s.label === label.toUpperCase().trim());
+
+export const createFrameworkId = () => `custom-${Date.now().toString(36)}`;
+
+// Copy of a framework that the user can edit freely
+export const duplicateFramework = (framework: StoryFramework): StoryFramework => ({
+  ...framework,
+  id: createFrameworkId(),
+  name: `${framework.name} (Copy)`,
+  builtIn: false,
+  sections: framework.sections.map(s => ({ ...s }))
+});
+
+export const getPercentTotal = (framework: StoryFramework) => framework.sections.reduce((sum, s) => sum + s.percent, 0);
+
+// Section shares scaled so they always add up to 1, whatever the user typed
+export const getSectionShares = (framework: StoryFramework): number[] => {
+  const total = getPercentTotal(framework);
+  return framework.sections.map(s => (total > 0 ? s.percent / total : 1 / framework.sections.length));
+};
+
+// Numbered structure block used in generation prompts, with approximate seconds per section
+export const describeFrameworkStructure = (framework: StoryFramework, duration: number): string => {
+  const shares = getSectionShares(framework);
+  return framework.sections
+    .map((s, i) => `${i + 1}. ${s.label} (~${Math.round(shares[i] * 100)}%, about ${Math.max(1, Math.round(shares[i] * duration))}s): ${s.description}`)
+    .join('\n');
+};
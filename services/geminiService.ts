@@ -1,11 +1,108 @@
-import { GoogleGenAI, Type, Schema, Modality } from "@google/genai";
-import { GeneratedScript, Tone, VoiceProfile, ScriptSource } from "../types";
+import { GoogleGenAI, Type, Schema, Modality, GenerateContentResponse, GenerateContentParameters } from "@google/genai";
+import { GeneratedScript, ToneId, VoiceProfile, ScriptSource, GenerationRequest, ScriptProvider, SegmentStreamHandler, SegmentRegenerationRequest, SegmentRewrite, HookVariantRequest, StoryFramework, TranslationRequest, ScriptTranslation, Language, SpeechPace, UsageCategory, UsageLine } from "../types";
+import { GenerationError, withRetry, throwIfAborted } from "./errors";
+import { createSegmentStreamParser } from "./streamingParser";
+import { findSection } from "./frameworkService";
+import { getPlatformProfile, describePlatformConventions } from "./platformService";
+import { renderScriptPrompts, renderSystemInstruction, renderImagePrompt, renderSpeechText } from "./promptService";
+import { delimitUserInput, MAX_GUIDANCE_LENGTH } from "./inputSafety";
+import { getScriptLanguage, getLanguageProfile, describeLanguage, describeLanguageRequirement } from "./languageService";
+import { describeBrandRequirement } from "./brandService";
+import { describeTone, getVoiceForTone } from "./toneService";
+import { checkBudget, recordUsage, estimateTextTokens, estimateSpeechTokens, estimateAudioInputTokens, IMAGE_OUTPUT_TOKENS, TokenEstimate } from "./usageService";
 
 const apiKey = process.env.API_KEY || '';
 
-const ai = new GoogleGenAI({ apiKey });
+// Lazily created so the app can boot (and fall back to the offline provider) without a key
+let sharedClient: GoogleGenAI | null = null;
 
-const scriptSchema: Schema = {
+const getClient = () => {
+  if (!sharedClient) {
+    sharedClient = new GoogleGenAI({ apiKey });
+  }
+  return sharedClient;
+};
+
+const requireApiKey = () => {
+  if (!apiKey) {
+    throw new GenerationError('MISSING_KEY', "API Key is missing. Please check your environment variables.");
+  }
+};
+
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+
+// Output sizes assumed when checking the budget before a text call
+const SCRIPT_OUTPUT_TOKENS = 2000;
+const SEGMENT_OUTPUT_TOKENS = 300;
+
+/**
+ * Every billable call goes through here: the budget is checked before the request and the response's
+ * token usage recorded after. Pass `ledger` to also collect the usage for the result the call produces.
+ */
+const callModel = async (category: UsageCategory, params: GenerateContentParameters, estimate: TokenEstimate, ledger?: UsageLine[]) => {
+  checkBudget(params.model, estimate);
+  const response = await getClient().models.generateContent(params);
+  const line = recordUsage(category, params.model, response.usageMetadata, !!ledger);
+  ledger?.push(line);
+  return response;
+};
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// Safety blocks come back as successful responses, so they have to be detected explicitly
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new GenerationError('SAFETY_BLOCK', `Prompt blocked: ${blockReason}`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new GenerationError('SAFETY_BLOCK', `Response blocked: ${finishReason}`);
+  }
+};
+
+/**
+ * Streaming counterpart of callModel for scripts: reads the whole stream, passing each segment to
+ * `onSegment` as soon as its JSON object is complete, and returns the text with every chunk's grounding
+ * metadata. Retried as a whole, so an error while reading starts the call over; the caller is told
+ * with a (null, -1) reset before the new attempt re-emits segments from the first.
+ */
+const streamScriptModel = async (
+  params: GenerateContentParameters,
+  estimate: TokenEstimate,
+  onSegment: SegmentStreamHandler,
+  ledger: UsageLine[],
+  signal?: AbortSignal
+): Promise<{ text: string; metadata: any[] }> => {
+  checkBudget(params.model, estimate);
+  const stream = await getClient().models.generateContentStream(params);
+  const parser = createSegmentStreamParser();
+  const metadata: any[] = [];
+  let usageMetadata;
+  let completed = false;
+  try {
+    for await (const chunk of stream) {
+      throwIfAborted(signal);
+      // Counts are cumulative, so the last chunk that carries them covers the whole call
+      usageMetadata = chunk.usageMetadata ?? usageMetadata;
+      assertNotBlocked(chunk);
+      const chunkMetadata = chunk.candidates?.[0]?.groundingMetadata;
+      if (chunkMetadata) metadata.push(chunkMetadata);
+      const emitted = parser.push(chunk.text || '');
+      emitted.forEach(segment => onSegment(segment, parser.getSegments().indexOf(segment)));
+    }
+    completed = true;
+  } finally {
+    // A stream that breaks part-way is still billed for what it sent, so it counts towards the budget
+    // and, through the ledger, towards the script that a retry goes on to produce
+    if (completed || usageMetadata) ledger.push(recordUsage('script', params.model, usageMetadata, true, !completed));
+  }
+  return { text: parser.getText(), metadata };
+};
+
+// The label description lists the selected framework's sections so structured output uses them
+const buildScriptSchema = (framework: StoryFramework): Schema => ({
   type: Type.OBJECT,
   properties: {
     segments: {
@@ -15,74 +112,72 @@ const scriptSchema: Schema = {
         properties: {
           startTime: { type: Type.INTEGER, description: "Start time in seconds" },
           endTime: { type: Type.INTEGER, description: "End time in seconds" },
-          label: { type: Type.STRING, description: "Section label (HOOK, PROBLEM, SOLUTION, DEMONSTRATION, CTA)" },
+          label: { type: Type.STRING, description: `Section label (${framework.sections.map(s => s.label).join(', ')})` },
           text: { type: Type.STRING, description: "The spoken script/voiceover text" },
           visual: { type: Type.STRING, description: "Detailed visual description including animations, text overlays, camera angles, and B-roll suggestions." },
         },
         required: ["startTime", "endTime", "label", "text", "visual"],
       },
     },
+    hashtags: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "Hashtags for the post caption, including the leading #",
+    },
   },
   required: ["segments"],
-};
+});
 
-export const generateScript = async (topic: string, tone: Tone, duration: number, useSearch: boolean = false): Promise<GeneratedScript> => {
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please check your environment variables.");
-  }
+interface GroundedSpan {
+  text: string;
+  uris: string[];
+}
 
-  let prompt = `
-    Create a ${duration}-second YouTube Short script about "${topic}".
-    Tone: ${tone}.
-    
-    You MUST follow this exact viral structure and timing, scaled specifically for a ${duration}-second video:
-    1. HOOK (First ~10-15%): A counter-intuitive statement or urgent hook.
-    2. PROBLEM (Next ~20%): Explain the scientific mechanism or the relatable struggle.
-    3. SOLUTION (Next ~20%): Introduce the specific technique, concept, or fix.
-    4. DEMONSTRATION (Next ~35%): A guided practice or specific example of applying the solution.
-    5. CTA (Last ~5s): Urgent call to save this video and specifically share it with a friend who needs this.
-
-    VISUAL GUIDELINES:
-    - Visuals MUST be dynamic and high-retention.
-    - Include specific camera directions (e.g., "Crash zoom", "Split screen", "Dolly in").
-    - Specify on-screen text overlays (e.g., [TEXT: "Don't Panic"]).
-    - Suggest precise animations or B-roll (e.g., "3D animation of cortisol spiking", "Black & white montage").
-    - Ensure visuals perfectly sync with the audio pacing.
-
-    Ensure the total duration is strictly ${duration} seconds.
-    The start and end times of the segments must be continuous and sum up to exactly ${duration}.
-    The content should be punchy, direct, and high-retention.
-  `;
+// Resolves each grounding support to the web sources it cites. Chunk indices are only meaningful
+// within the metadata they arrived in, so this runs per response (or per streamed chunk).
+const extractGroundedSpans = (metadata: any): GroundedSpan[] =>
+  (metadata?.groundingSupports || []).flatMap((support: any) => {
+    const text = support.segment?.text;
+    const uris = (support.groundingChunkIndices || [])
+      .map((i: number) => metadata.groundingChunks?.[i]?.web?.uri)
+      .filter(Boolean);
+    return text && uris.length > 0 ? [{ text, uris }] : [];
+  });
 
-  if (useSearch) {
-    prompt += `
-    IMPORTANT: Perform a Google Search to find the latest scientific, trending, or relevant data on this topic to ensure accuracy.
-    Include a 'keyFacts' array in the JSON response with 3-5 short, punchy bullet points of specific research or facts found during the search.
-    
-    OUTPUT FORMAT:
-    Return a RAW JSON object (do not use Markdown code blocks).
-    Structure:
-    {
-      "segments": [
-        {
-          "startTime": number,
-          "endTime": number,
-          "label": "string",
-          "text": "string",
-          "visual": "string"
-        }
-      ],
-      "keyFacts": ["string", "string", "string"]
+// Collects unique web sources from grounding chunks, with the response spans each one backs
+const extractSources = (chunks: any[], spans: GroundedSpan[]): ScriptSource[] => {
+  const sources: ScriptSource[] = [];
+  chunks.forEach((chunk: any) => {
+    if (chunk.web?.uri && chunk.web?.title) {
+      // Avoid duplicates
+      if (!sources.some(s => s.uri === chunk.web.uri)) {
+        const excerpts = [...new Set(spans.filter(span => span.uris.includes(chunk.web.uri)).map(span => span.text))];
+        sources.push({
+          title: chunk.web.title,
+          uri: chunk.web.uri,
+          ...(excerpts.length > 0 && { excerpts })
+        });
+      }
     }
-    `;
-  }
+  });
+  return sources;
+};
+
+const generateScript = async (request: GenerationRequest, onSegment?: SegmentStreamHandler, signal?: AbortSignal): Promise<GeneratedScript> => {
+  requireApiKey();
+
+  const { topic, framework, useSearch = false } = request;
+
+  // Rendered from the active prompt templates; scriptService passes them in so the exact prompt can be recorded
+  const { prompt, systemInstruction } = request.prompts ?? renderScriptPrompts(request);
 
   try {
     const config: any = {
         model: "gemini-2.5-flash",
         contents: prompt,
         config: {
-          systemInstruction: "You are a world-class viral content strategist specializing in neuroscience-backed YouTube Shorts. Your scripts are concise, rhythmic, and visually descriptive, focusing on high-retention visual storytelling.",
+          systemInstruction,
+          abortSignal: signal,
         },
     };
 
@@ -91,13 +186,38 @@ export const generateScript = async (topic: string, tone: Tone, duration: number
       config.config.tools = [{ googleSearch: {} }];
     } else {
       config.config.responseMimeType = "application/json";
-      config.config.responseSchema = scriptSchema;
+      config.config.responseSchema = buildScriptSchema(framework);
     }
 
-    const response = await ai.models.generateContent(config);
+    let text = '';
+    const groundingChunks: any[] = [];
+    const groundedSpans: GroundedSpan[] = [];
+    const usage: UsageLine[] = [];
+    const estimate = { inputTokens: estimateTextTokens(prompt + systemInstruction), outputTokens: SCRIPT_OUTPUT_TOKENS };
 
-    const text = response.text;
-    if (!text) throw new Error("No response text received");
+    if (onSegment) {
+      // Streaming mode: segments are emitted as soon as their JSON objects are complete
+      let attempts = 0;
+      const streamed = await withRetry(() => {
+        if (attempts++ > 0) onSegment(null, -1);
+        return streamScriptModel(config, estimate, onSegment, usage, signal);
+      }, { signal });
+      streamed.metadata.forEach(metadata => {
+        groundingChunks.push(...(metadata.groundingChunks || []));
+        groundedSpans.push(...extractGroundedSpans(metadata));
+      });
+      text = streamed.text;
+    } else {
+      const response = await withRetry(() => callModel('script', config, estimate, usage), { signal });
+      assertNotBlocked(response);
+      const metadata = response.candidates?.[0]?.groundingMetadata;
+      groundingChunks.push(...(metadata?.groundingChunks || []));
+      groundedSpans.push(...extractGroundedSpans(metadata));
+      text = response.text || '';
+    }
+    throwIfAborted(signal);
+
+    if (!text) throw new GenerationError('MALFORMED_RESPONSE', "No response text received");
     
     let parsedData;
     try {
@@ -106,37 +226,25 @@ export const generateScript = async (topic: string, tone: Tone, duration: number
       parsedData = JSON.parse(cleanText);
     } catch (e) {
       console.error("JSON Parse Error:", e, "Text:", text);
-      throw new Error("Failed to parse generated script. The model might have returned invalid JSON.");
+      throw new GenerationError('MALFORMED_RESPONSE', "Failed to parse generated script. The model might have returned invalid JSON.", e);
     }
     
     // Validate simple structure
     if (!parsedData.segments || !Array.isArray(parsedData.segments)) {
-      throw new Error("Invalid response structure");
+      throw new GenerationError('MALFORMED_RESPONSE', "Invalid response structure");
     }
 
     const script: GeneratedScript = {
       topic,
       segments: parsedData.segments,
-      keyFacts: parsedData.keyFacts || []
+      keyFacts: parsedData.keyFacts || [],
+      hashtags: Array.isArray(parsedData.hashtags) ? parsedData.hashtags.map(String) : [],
+      usage
     };
 
     // Extract grounding sources if available
-    if (useSearch && response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-      const chunks = response.candidates[0].groundingMetadata.groundingChunks;
-      const sources: ScriptSource[] = [];
-      
-      chunks.forEach((chunk: any) => {
-        if (chunk.web?.uri && chunk.web?.title) {
-          // Avoid duplicates
-          if (!sources.some(s => s.uri === chunk.web.uri)) {
-            sources.push({
-              title: chunk.web.title,
-              uri: chunk.web.uri
-            });
-          }
-        }
-      });
-      script.sources = sources;
+    if (useSearch && groundingChunks.length > 0) {
+      script.sources = extractSources(groundingChunks, groundedSpans);
     }
 
     return script;
@@ -147,33 +255,230 @@ export const generateScript = async (topic: string, tone: Tone, duration: number
   }
 };
 
-const getVoiceForTone = (tone: Tone): string => {
-  // Mapping tones to specific Gemini TTS voices for optimal delivery
-  switch (tone) {
-    case Tone.URGENT: 
-      return 'Fenrir'; // Intense, deep, commanding - ideal for high-stakes hooks
-    case Tone.AUTHORITATIVE: 
-      return 'Charon'; // Deep, resonant, serious - perfect for "Deep Dive" and scientific facts
-    case Tone.MOTIVATIONAL: 
-      return 'Zephyr'; // Energetic, clear, uplifting - great for fitness/hacks
-    case Tone.HUMOROUS: 
-      return 'Puck';   // Playful, expressive, mischievous - captures irony and wit
-    case Tone.STORYTELLING: 
-      return 'Puck';   // Engaging narrative style - good for flowing stories
-    case Tone.PERSONAL: 
-      return 'Zephyr'; // Relatable, conversational, warm - sounds like a friend
-    case Tone.CALM: 
-      return 'Kore';   // Soothing, soft, reassuring - perfect for anxiety relief
-    default: 
-      return 'Kore';
+const segmentRewriteSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING, description: "The rewritten spoken script/voiceover text" },
+    visual: { type: Type.STRING, description: "Detailed visual description matching the new text" },
+  },
+  required: ["text", "visual"],
+};
+
+const regenerateSegment = async ({ script, index, tone, framework, platform, brand, guidance, maxWords, previousWordCount }: SegmentRegenerationRequest, signal?: AbortSignal): Promise<SegmentRewrite> => {
+  requireApiKey();
+
+  const target = script.segments[index];
+  const section = findSection(framework, target.label);
+  const seconds = target.endTime - target.startTime;
+  const context = script.segments
+    .map((s, i) => `${i === index ? '>>> REWRITE THIS >>> ' : ''}[${s.startTime}-${s.endTime}s] ${s.label}: "${s.text}" (Visual: ${s.visual})`)
+    .join('\n');
+
+  const prompt = `
+    You are editing one segment of a ${getPlatformProfile(platform).formatName} script about ${delimitUserInput(script.topic, 'topic')}.
+    Tone: ${describeTone(tone)}.
+
+    FULL SCRIPT (for context, in order):
+    ${context}
+
+    Rewrite ONLY the ${target.label} segment marked with ">>> REWRITE THIS >>>".
+    - It occupies ${target.startTime}s to ${target.endTime}s (${seconds} seconds). The spoken text MUST NOT exceed ${maxWords} words.${previousWordCount ? ` Your previous draft had ${previousWordCount} words; cut it to ${maxWords} or fewer.` : ''}
+    - It must flow naturally from the segment before it and lead into the segment after it.
+    - Keep the purpose of a ${target.label} section${section ? ` (${section.description})` : ''} and do not repeat lines from other segments.
+    - Write a new visual description that syncs with the new text.
+    - Follow ${platform} conventions:
+${describePlatformConventions(platform)}
+    ${guidance ? `- Editor guidance: ${delimitUserInput(guidance, 'guidance', MAX_GUIDANCE_LENGTH)}` : ''}
+
+    ${describeLanguageRequirement(getScriptLanguage(script))}
+    ${describeBrandRequirement(brand)}
+  `;
+
+  try {
+    const systemInstruction = renderSystemInstruction(tone, platform, undefined, brand);
+    const response = await withRetry(() => callModel('script', {
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: segmentRewriteSchema,
+        abortSignal: signal
+      }
+    }, { inputTokens: estimateTextTokens(prompt + systemInstruction), outputTokens: SEGMENT_OUTPUT_TOKENS }), { signal });
+    assertNotBlocked(response);
+
+    const text = response.text;
+    if (!text) throw new GenerationError('MALFORMED_RESPONSE', "No response text received");
+    let parsed: SegmentRewrite;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      throw new GenerationError('MALFORMED_RESPONSE', "Failed to parse rewritten segment", e);
+    }
+    if (typeof parsed.text !== 'string' || !parsed.text.trim()) {
+      throw new GenerationError('MALFORMED_RESPONSE', "Rewritten segment has no text");
+    }
+    return { text: parsed.text.trim(), visual: String(parsed.visual || target.visual) };
+  } catch (error) {
+    console.error("Gemini Segment Rewrite Error:", error);
+    throw error;
   }
 };
 
-export const analyzeVoiceStyle = async (base64Audio: string): Promise<VoiceProfile> => {
-  if (!apiKey) throw new Error("API Key is missing");
+const hookVariantsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    variants: {
+      type: Type.ARRAY,
+      items: segmentRewriteSchema,
+    },
+  },
+  required: ["variants"],
+};
+
+const generateHookVariants = async ({ script, tone, platform, count, brand, maxWords }: HookVariantRequest, signal?: AbortSignal): Promise<SegmentRewrite[]> => {
+  requireApiKey();
+
+  const hook = script.segments[0];
+  const rest = script.segments.slice(1).map(s => `${s.label}: "${s.text}"`).join('\n');
+
+  const prompt = `
+    Write ${count} alternative HOOKS for a ${getPlatformProfile(platform).formatName} about ${delimitUserInput(script.topic, 'topic')}.
+    Tone: ${describeTone(tone)}.
+
+    Current hook (${hook.endTime - hook.startTime} seconds): "${hook.text}"
+    The rest of the script, which every hook must lead into:
+    ${rest}
+
+    Rules:
+    - Each hook MUST NOT exceed ${maxWords} spoken words.
+    - Make every variant take a clearly different angle (a surprising number, a direct "you" challenge, a myth to bust, an open question, a bold negation).
+    - Include a matching visual description for each hook.
+    - Follow ${platform} conventions:
+${describePlatformConventions(platform)}
+
+    ${describeLanguageRequirement(getScriptLanguage(script))}
+    ${describeBrandRequirement(brand)}
+  `;
 
   try {
-    const response = await ai.models.generateContent({
+    const systemInstruction = renderSystemInstruction(tone, platform, undefined, brand);
+    const response = await withRetry(() => callModel('script', {
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: hookVariantsSchema,
+        abortSignal: signal
+      }
+    }, { inputTokens: estimateTextTokens(prompt + systemInstruction), outputTokens: SEGMENT_OUTPUT_TOKENS * count }), { signal });
+    assertNotBlocked(response);
+
+    const text = response.text;
+    if (!text) throw new GenerationError('MALFORMED_RESPONSE', "No response text received");
+    let parsed: { variants?: SegmentRewrite[] };
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      throw new GenerationError('MALFORMED_RESPONSE', "Failed to parse hook variants", e);
+    }
+    // The model sometimes writes more than asked for; extra hooks would each be scored and voiced
+    const variants = (parsed.variants || []).filter(v => typeof v?.text === 'string' && v.text.trim()).slice(0, count);
+    if (variants.length === 0) throw new GenerationError('MALFORMED_RESPONSE', "No hook variants returned");
+    return variants.map(v => ({ text: v.text.trim(), visual: String(v.visual || hook.visual) }));
+  } catch (error) {
+    console.error("Gemini Hook Variants Error:", error);
+    throw error;
+  }
+};
+
+const translationSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    topic: { type: Type.STRING, description: "The topic title in the target language" },
+    segments: {
+      type: Type.ARRAY,
+      items: segmentRewriteSchema,
+    },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    keyFacts: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["topic", "segments", "hashtags"],
+};
+
+const translateScript = async ({ script, language, tone, platform, maxWords, guidance }: TranslationRequest, signal?: AbortSignal): Promise<ScriptTranslation> => {
+  requireApiKey();
+
+  const segments = script.segments
+    .map((s, i) => `${i + 1}. [${s.startTime}-${s.endTime}s] ${s.label} (max ${maxWords[i]} words): "${s.text}" (Visual: ${s.visual})`)
+    .join('\n');
+
+  const prompt = `
+    Translate this ${getPlatformProfile(platform).formatName} script about ${delimitUserInput(script.topic, 'topic')} from ${getScriptLanguage(script)} into ${describeLanguage(language)}.
+    Tone: ${describeTone(tone)}.
+
+    SEGMENTS (in order):
+    ${segments}
+
+    HASHTAGS: ${(script.hashtags || []).join(' ') || 'none'}
+    KEY FACTS:
+    ${(script.keyFacts || []).map(f => `- ${f}`).join('\n') || 'none'}
+
+    Rules:
+    - Return exactly ${script.segments.length} segments in the same order. Do not merge, split or reorder them.
+    - Each segment's spoken text MUST NOT exceed its max word count. Shorten or rephrase instead of translating word for word.
+    - Adapt idioms, numbers and the call to action so they sound native to ${platform} viewers who speak ${language}.
+    - Translate each visual description, keeping camera directions; translate the text inside [TEXT: "..."] overlays.
+    - Translate the topic title and key facts. Localise the hashtags but keep platform tags such as #Shorts.
+    ${guidance ? `- ${guidance}` : ''}
+  `;
+
+  try {
+    const systemInstruction = renderSystemInstruction(tone, platform);
+    const usage: UsageLine[] = [];
+    // A translation comes back about as long as the prompt's script
+    const inputTokens = estimateTextTokens(prompt + systemInstruction);
+    const response = await withRetry(() => callModel('script', {
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: translationSchema,
+        abortSignal: signal
+      }
+    }, { inputTokens, outputTokens: inputTokens }, usage), { signal });
+    assertNotBlocked(response);
+
+    const text = response.text;
+    if (!text) throw new GenerationError('MALFORMED_RESPONSE', "No response text received");
+    let parsed: Partial<ScriptTranslation>;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      throw new GenerationError('MALFORMED_RESPONSE', "Failed to parse translation", e);
+    }
+    if (!Array.isArray(parsed.segments)) throw new GenerationError('MALFORMED_RESPONSE', "Translation has no segments");
+    return {
+      topic: String(parsed.topic || script.topic),
+      segments: parsed.segments.map((s, i) => ({ text: String(s?.text || '').trim(), visual: String(s?.visual || script.segments[i]?.visual || '') })),
+      hashtags: Array.isArray(parsed.hashtags) ? parsed.hashtags.map(String) : [],
+      keyFacts: Array.isArray(parsed.keyFacts) ? parsed.keyFacts.map(String) : [],
+      usage
+    };
+  } catch (error) {
+    console.error("Gemini Translation Error:", error);
+    throw error;
+  }
+};
+
+const analyzeVoiceStyle = async (base64Audio: string, signal?: AbortSignal): Promise<VoiceProfile> => {
+  requireApiKey();
+
+  try {
+    const response = await withRetry(() => callModel('voice', {
       model: "gemini-2.5-flash",
       contents: {
         parts: [
@@ -205,13 +510,19 @@ export const analyzeVoiceStyle = async (base64Audio: string): Promise<VoiceProfi
             analysis: { type: Type.STRING }
           },
           required: ["voiceName", "analysis"]
-        }
+        },
+        abortSignal: signal
       }
-    });
+    }, { inputTokens: estimateAudioInputTokens(base64Audio), outputTokens: SEGMENT_OUTPUT_TOKENS }), { signal });
+    assertNotBlocked(response);
 
     const text = response.text;
-    if (!text) throw new Error("Analysis failed");
-    return JSON.parse(text) as VoiceProfile;
+    if (!text) throw new GenerationError('MALFORMED_RESPONSE', "Analysis failed");
+    try {
+      return JSON.parse(text) as VoiceProfile;
+    } catch (e) {
+      throw new GenerationError('MALFORMED_RESPONSE', "Failed to parse voice analysis", e);
+    }
 
   } catch (error) {
     console.error("Voice Analysis Error:", error);
@@ -219,58 +530,86 @@ export const analyzeVoiceStyle = async (base64Audio: string): Promise<VoiceProfi
   }
 };
 
-export const generateSpeech = async (text: string, tone: Tone, voiceOverride?: string): Promise<string> => {
-  if (!apiKey) throw new Error("API Key is missing");
+const generateSpeech = async (text: string, tone: ToneId, voiceOverride?: string, language?: Language, pace?: SpeechPace, signal?: AbortSignal): Promise<string> => {
+  requireApiKey();
 
   // Use override if provided, otherwise fallback to tone mapping
   const voiceName = voiceOverride || getVoiceForTone(tone);
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName },
+    // Empty audio is retried together with transport failures
+    return await withRetry(async () => {
+      const response = await callModel('tts', {
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text: renderSpeechText(text, pace) }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName },
+            },
+            // Prebuilt voices are multilingual; the code keeps pronunciation native for the script's language
+            languageCode: getLanguageProfile(language).code,
           },
+          abortSignal: signal,
         },
-      },
-    });
+      }, { inputTokens: estimateTextTokens(text), outputTokens: estimateSpeechTokens(text) });
+      assertNotBlocked(response);
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("No audio generated");
-    return base64Audio;
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) throw new GenerationError('EMPTY_MEDIA', "No audio generated");
+      return base64Audio;
+    }, { signal });
   } catch (error) {
     console.error("Gemini TTS Error:", error);
     throw error;
   }
 };
 
-export const generateImage = async (visualDescription: string): Promise<string> => {
-  if (!apiKey) throw new Error("API Key is missing");
+const generateImage = async (visualDescription: string, signal?: AbortSignal): Promise<string> => {
+  requireApiKey();
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image",
-      contents: {
-        parts: [
-          { text: `Create a high-quality, cinematic, photorealistic 16:9 image for a YouTube Short video based on this description: ${visualDescription}. Ensure the style is modern, engaging, and high-definition.` }
-        ]
-      },
-      // No responseMimeType or responseSchema for image generation models
-    });
+    const prompt = renderImagePrompt(visualDescription);
+    return await withRetry(async () => {
+      const response = await callModel('image', {
+        model: IMAGE_MODEL,
+        contents: {
+          parts: [
+            { text: prompt }
+          ]
+        },
+        // No responseMimeType or responseSchema for image generation models
+        config: { abortSignal: signal },
+      }, { inputTokens: estimateTextTokens(prompt), outputTokens: IMAGE_OUTPUT_TOKENS });
+      assertNotBlocked(response);
 
-    // Iterate to find image part
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      // Iterate to find image part
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
       }
-    }
-    throw new Error("No image generated");
+      throw new GenerationError('EMPTY_MEDIA', "No image generated");
+    }, { signal });
   } catch (error) {
     console.error("Gemini Image Gen Error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: ScriptProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  description: 'Live generation with gemini-2.5-flash, TTS and image models.',
+  speechModel: TTS_MODEL,
+  imageModel: IMAGE_MODEL,
+  isAvailable: () => !!apiKey,
+  generateScript,
+  regenerateSegment,
+  generateHookVariants,
+  translateScript,
+  generateSpeech,
+  generateImage,
+  analyzeVoiceStyle
+};
@@ -0,0 +1,63 @@
+import { Language } from "../types";
+import { countWords } from "./scriptValidation";
+import { getLanguageProfile } from "./languageService";
+
+export interface HookScoreBreakdown {
+  pacing: number;
+  numbers: number;
+  secondPerson: number;
+  curiosityGap: number;
+  negation: number;
+}
+
+export interface HookScore {
+  total: number; // 0-100
+  breakdown: HookScoreBreakdown;
+  notes: string[];
+}
+
+// Maximum points per heuristic; they add up to 100
+const WEIGHTS: HookScoreBreakdown = {
+  pacing: 35,
+  numbers: 15,
+  secondPerson: 20,
+  curiosityGap: 20,
+  negation: 10
+};
+
+const SECOND_PERSON = /\b(you|your|you're|yours|yourself)\b/i;
+const NUMBER = /\b\d+(\.\d+)?%?\b|\b(one|two|three|four|five|six|seven|eight|nine|ten|seconds?|minutes?)\b/i;
+const NEGATION = /\b(stop|never|don't|doesn't|isn't|aren't|won't|can't|no one|nobody|not|without|quit|wrong)\b/i;
+const CURIOSITY_GAP = /\b(here's (how|why|what)|the (secret|reason|truth)|this (one|is why|trick|simple)|what (nobody|no one)|nobody tells|you won't believe|the real reason|why your|turns out|actually)\b|\?/i;
+
+/**
+ * Scores a hook line with local heuristics: spoken length vs. the hook's time window, concrete numbers,
+ * direct address, curiosity-gap phrasing and negation. Higher is better. Pacing follows the language's
+ * narration pace; the phrasing patterns are English.
+ */
+export const scoreHook = (text: string, seconds: number, language: Language = Language.ENGLISH): HookScore => {
+  const notes: string[] = [];
+  const words = countWords(text);
+  const targetWords = seconds * getLanguageProfile(language).wordsPerSecond;
+
+  // Full marks within ±20% of the spoken budget, falling off linearly to zero at ±100%
+  const deviation = targetWords > 0 ? Math.abs(words - targetWords) / targetWords : 1;
+  const pacingRatio = deviation <= 0.2 ? 1 : Math.max(0, 1 - (deviation - 0.2) / 0.8);
+  if (words > targetWords * 1.2) notes.push(`Too long: ${words} words for ${seconds}s`);
+  else if (words < targetWords * 0.8) notes.push(`Short: ${words} words for ${seconds}s`);
+
+  const breakdown: HookScoreBreakdown = {
+    pacing: Math.round(WEIGHTS.pacing * pacingRatio),
+    numbers: NUMBER.test(text) ? WEIGHTS.numbers : 0,
+    secondPerson: SECOND_PERSON.test(text) ? WEIGHTS.secondPerson : 0,
+    curiosityGap: CURIOSITY_GAP.test(text) ? WEIGHTS.curiosityGap : 0,
+    negation: NEGATION.test(text) ? WEIGHTS.negation : 0
+  };
+
+  if (!breakdown.numbers) notes.push('No concrete number');
+  if (!breakdown.secondPerson) notes.push('Does not address the viewer');
+  if (!breakdown.curiosityGap) notes.push('No curiosity gap');
+
+  const total = Object.values(breakdown).reduce((a, b) => a + b, 0);
+  return { total, breakdown, notes };
+};
@@ -0,0 +1,60 @@
+import { GeneratedScript, Language, LanguageProfile } from "../types";
+import { LANGUAGE_PROFILES } from "../constants";
+
+export const getLanguageProfile = (language: Language = Language.ENGLISH): LanguageProfile =>
+  LANGUAGE_PROFILES[language] || LANGUAGE_PROFILES[Language.ENGLISH];
+
+// Scripts saved before languages existed have no language and are English
+export const getScriptLanguage = (script: GeneratedScript): Language => script.language ?? Language.ENGLISH;
+
+// e.g. "Spanish (Español)"
+export const describeLanguage = (language: Language): string => {
+  const { nativeName } = getLanguageProfile(language);
+  return nativeName === language ? language : `${language} (${nativeName})`;
+};
+
+const HAS_LETTER_OR_DIGIT = /[\p{L}\p{N}]/u;
+
+/**
+ * Splits spoken text into display words. Tokens without letters or digits (French "?" after a
+ * non-breaking space, a standalone dash) are attached to a neighbouring word instead of counting
+ * as words of their own; leading marks such as "¿" stay with the word they open.
+ */
+export const splitWords = (text: string): string[] => {
+  const words: string[] = [];
+  let leading = '';
+  for (const token of text.split(/\s+/u).filter(Boolean)) {
+    if (HAS_LETTER_OR_DIGIT.test(token)) {
+      words.push(leading + token);
+      leading = '';
+    } else if (words.length > 0) {
+      words[words.length - 1] += ` ${token}`;
+    } else {
+      leading += `${token} `;
+    }
+  }
+  if (leading && words.length === 0) words.push(leading.trim());
+  return words;
+};
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'your', 'you', 'how', 'why', 'what', 'when', 'that', 'this', 'from', 'into', 'about',
+  'are', 'can', 'not', 'its', 'our', 'their', 'will', 'more', 'less', 'best', 'top', 'tips', 'hack', 'hacks', 'guide',
+  'was', 'were', 'has', 'have', 'had', 'they', 'them', 'than', 'then', 'which', 'who', 'just', 'also', 'every', 'most'
+]);
+
+// Lowercased content words of three letters or more, for loose keyword matching between texts
+export const getKeywords = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length >= 3 && !STOPWORDS.has(w));
+
+// Crude suffix stripping so "sleeping" matches "sleep" and "habits" matches "habit"
+export const stemKeyword = (word: string) => word.replace(/(ing|ed|es|s)$/, '');
+
+/**
+ * Output language instruction appended to generation and rewrite prompts. It stays in code because
+ * section labels must remain in English for label normalisation to work. Empty for English.
+ */
+export const describeLanguageRequirement = (language: Language = Language.ENGLISH): string => {
+  if (language === Language.ENGLISH) return '';
+  return `LANGUAGE: Write every spoken "text", every "visual" description, the hashtags and any key facts in ${describeLanguage(language)}, the way a native creator would say it rather than a literal translation. Keep section labels exactly as listed, in English.`;
+};
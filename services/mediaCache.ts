@@ -0,0 +1,138 @@
+// Persistent cache for generated voiceovers and images, so remounted cards and reloaded history
+// entries don't pay for the same media twice. Entries are keyed by a hash of everything that
+// determines the output and evicted least-recently-used once the cache outgrows its size limit.
+
+export type CachedMediaKind = 'audio' | 'image';
+
+interface MediaEntry {
+  key: string;
+  kind: CachedMediaKind;
+  data: string; // Base64 PCM for audio, a data URL for images
+  size: number;
+  lastUsed: number;
+}
+
+export interface MediaCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const DB_NAME = 'neuroviral_media';
+const STORE = 'media';
+// Index of [lastUsed, size]: eviction reads it with a key cursor, so no cached data is loaded
+const USAGE_INDEX = 'usage';
+export const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 2);
+      request.onupgradeneeded = event => {
+        const store = event.oldVersion < 1
+          ? request.result.createObjectStore(STORE, { keyPath: 'key' })
+          : request.transaction!.objectStore(STORE);
+        // Version 1 indexed lastUsed alone, which meant reading whole entries to learn their sizes
+        if (store.indexNames.contains('lastUsed')) store.deleteIndex('lastUsed');
+        store.createIndex(USAGE_INDEX, ['lastUsed', 'size']);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open (private browsing, blocked storage) is retried on the next call
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T,>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDb();
+  return run(db.transaction(STORE, mode).objectStore(STORE));
+};
+
+// SHA-256 of the key parts, so long texts and prompts make fixed-size keys
+export const hashMediaKey = async (parts: string[]): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The cache is an optimisation: storage failures are logged and treated as misses
+export const getCachedMedia = async (key: string): Promise<string | null> => {
+  try {
+    return await withStore('readwrite', async store => {
+      const entry = await requestToPromise(store.get(key) as IDBRequest<MediaEntry | undefined>);
+      if (!entry) return null;
+      store.put({ ...entry, lastUsed: Date.now() });
+      return entry.data;
+    });
+  } catch (e) {
+    console.warn("Media cache read failed:", e);
+    return null;
+  }
+};
+
+// Keys and sizes, least recently used first, read from the usage index alone
+const listEntrySizes = (store: IDBObjectStore) => new Promise<{ key: string; size: number }[]>((resolve, reject) => {
+  const request = store.index(USAGE_INDEX).openKeyCursor();
+  const entries: { key: string; size: number }[] = [];
+  request.onerror = () => reject(request.error);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) {
+      resolve(entries);
+      return;
+    }
+    const [, size] = cursor.key as [number, number];
+    entries.push({ key: cursor.primaryKey as string, size });
+    cursor.continue();
+  };
+});
+
+// Drops least-recently-used entries until the cache fits in MAX_CACHE_BYTES
+const evict = async (store: IDBObjectStore) => {
+  const entries = await listEntrySizes(store);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  for (const entry of entries) {
+    if (total <= MAX_CACHE_BYTES) break;
+    store.delete(entry.key);
+    total -= entry.size;
+  }
+};
+
+export const putCachedMedia = async (key: string, kind: CachedMediaKind, data: string): Promise<void> => {
+  try {
+    await withStore('readwrite', async store => {
+      await requestToPromise(store.put({ key, kind, data, size: data.length, lastUsed: Date.now() } as MediaEntry));
+      await evict(store);
+    });
+  } catch (e) {
+    console.warn("Media cache write failed:", e);
+  }
+};
+
+export const getMediaCacheStats = async (): Promise<MediaCacheStats> => {
+  try {
+    return await withStore('readonly', async store => {
+      const entries = await listEntrySizes(store);
+      return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0) };
+    });
+  } catch (e) {
+    console.warn("Media cache stats failed:", e);
+    return { entries: 0, bytes: 0 };
+  }
+};
+
+export const clearMediaCache = async (): Promise<void> => {
+  await withStore('readwrite', store => requestToPromise(store.clear()).then(() => undefined));
+};
@@ -0,0 +1,351 @@
+import { GeneratedScript, ToneId, VoiceProfile, ScriptSegment, GenerationRequest, ScriptProvider, SegmentStreamHandler, SegmentRegenerationRequest, SegmentRewrite, HookVariantRequest, Platform, Language, TranslationRequest, ScriptTranslation, SpeechPace } from "../types";
+import { getVoiceForTone } from "./toneService";
+import { getLanguageProfile } from "./languageService";
+import { getSectionShares } from "./frameworkService";
+import { sleep, throwIfAborted } from "./errors";
+
+// Deterministic, network-free provider used for demos, UI work and tests.
+// Every output is derived from a hash of its inputs, so the same request always yields the same result.
+
+const SAMPLE_RATE = 24000; // Matches the PCM format returned by the Gemini TTS model
+const WORDS_PER_SECOND = 2.6;
+const PACE_FACTORS: Record<SpeechPace, number> = { slower: 0.8, normal: 1, faster: 1.25 };
+const STREAM_DELAY_MS = 250; // Simulated per-segment latency so streaming UI can be exercised offline
+
+// FNV-1a string hash
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32 seeded PRNG
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T,>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+interface SectionPlan {
+  label: string;
+  lines: string[];
+  visuals: string[];
+}
+
+// Canned lines for the default framework's sections
+const SEGMENT_PLAN: SectionPlan[] = [
+  {
+    label: 'HOOK',
+    lines: [
+      "Everything you know about {topic} is backwards.",
+      "Your brain is sabotaging your {topic}. Here's the fix.",
+      "Stop scrolling. This {topic} trick takes ten seconds."
+    ],
+    visuals: [
+      "Crash zoom on a surprised face. [TEXT: \"{topic}\"] slams onto screen.",
+      "Black screen, then a glitch transition revealing [TEXT: \"STOP\"]."
+    ]
+  },
+  {
+    label: 'PROBLEM',
+    lines: [
+      "Most people approach {topic} on autopilot. Your brain defaults to the easiest path, not the best one.",
+      "When {topic} goes wrong, stress hormones spike and your focus collapses into a loop."
+    ],
+    visuals: [
+      "3D animation of a brain with a red warning pulse spreading across it.",
+      "Split screen: frustrated person vs. a looping clock animation."
+    ]
+  },
+  {
+    label: 'SOLUTION',
+    lines: [
+      "The fix is a simple pattern interrupt. One small cue resets the whole system.",
+      "Researchers found a three-step reset that rewires this habit in days, not months."
+    ],
+    visuals: [
+      "Dolly in on a hand flipping a switch. [TEXT: \"RESET\"] glows.",
+      "Clean whiteboard animation drawing three numbered steps."
+    ]
+  },
+  {
+    label: 'DEMONSTRATION',
+    lines: [
+      "Try it now. Pause. Breathe in for four. Name the first thing you see. Then take the smallest next step on {topic}. That's it. Repeat it tomorrow.",
+      "Here's how it looks in real life. Notice the trigger. Label it out loud. Swap in the new action for {topic}. Do it three times and it sticks."
+    ],
+    visuals: [
+      "Over-the-shoulder shot following each step, with numbered text overlays.",
+      "Fast B-roll montage synced to each spoken step, ending on a calm close up."
+    ]
+  },
+  {
+    label: 'CTA',
+    lines: [
+      "Save this for later and send it to a friend who needs it.",
+      "Save this now. Share it with someone who struggles with {topic}."
+    ],
+    visuals: [
+      "Person pointing at the save icon. Share arrow animates in.",
+      "Freeze frame with [TEXT: \"SAVE + SHARE\"] bouncing in."
+    ]
+  }
+];
+
+// Used for sections of custom frameworks that have no canned lines
+const GENERIC_PLAN: Omit<SectionPlan, 'label'> = {
+  lines: [
+    "Here's what most people miss about {topic}.",
+    "When it comes to {topic}, this is where it gets interesting.",
+    "Remember this one thing about {topic}. It changes everything.",
+    "Think about the last time {topic} came up. Now look closer."
+  ],
+  visuals: [
+    "Medium shot with bold [TEXT: \"{label}\"] overlay sliding in.",
+    "B-roll montage illustrating {topic}, cut on the beat."
+  ]
+};
+
+const getSectionPlan = (label: string): SectionPlan =>
+  SEGMENT_PLAN.find(p => p.label === label) || { label, ...GENERIC_PLAN };
+
+const PLATFORM_HASHTAGS: Record<Platform, string[]> = {
+  [Platform.YOUTUBE_SHORTS]: ['#Shorts', '#Neuroscience'],
+  [Platform.TIKTOK]: ['#LearnOnTikTok', '#BrainHacks', '#Psychology'],
+  [Platform.INSTAGRAM_REELS]: ['#ReelsTips', '#BrainHealth', '#SelfImprovement']
+};
+
+const fillTopic = (template: string, topic: string, label: string = '') =>
+  template.replace(/\{topic\}/g, topic).replace(/\{label\}/g, label);
+
+// The canned lines are English only, so other languages are marked with their code, e.g. "[es-US]"
+const languageTag = (language: Language = Language.ENGLISH) =>
+  language === Language.ENGLISH ? '' : `[${getLanguageProfile(language).code}] `;
+
+const stripLanguageTag = (text: string) => text.replace(/^\[[\w-]+\]\s*/, '');
+
+const generateScript = async ({ topic, tone, duration, framework, platform, useSearch = false, language }: GenerationRequest, onSegment?: SegmentStreamHandler, signal?: AbortSignal): Promise<GeneratedScript> => {
+  throwIfAborted(signal);
+  const random = createRandom(hashString(`${topic}|${tone}|${duration}|${framework.id}`));
+  const subject = topic.trim() || 'this';
+  const shares = getSectionShares(framework);
+
+  // With fewer seconds than sections, the shortest section is folded into its neighbour (keeping the
+  // earlier label) until each can have a whole second, as validateScript does for model output
+  const groups = framework.sections.map((section, index) => ({ labels: [section.label], share: shares[index] }));
+  while (groups.length > Math.max(1, duration)) {
+    const shortest = groups.reduce((best, g, i) => (g.share < groups[best].share ? i : best), 0);
+    const into = shortest === 0 ? 1 : shortest - 1;
+    const [first, second] = shortest < into ? [groups[shortest], groups[into]] : [groups[into], groups[shortest]];
+    groups[into] = { labels: [...first.labels, ...second.labels], share: first.share + second.share };
+    groups.splice(shortest, 1);
+  }
+
+  // Section boundaries follow the framework's shares, rounded to whole seconds with at least 1s each
+  const segments: ScriptSegment[] = [];
+  let cursor = 0;
+  let cumulative = 0;
+
+  groups.forEach((group, index) => {
+    cumulative += group.share;
+    const remaining = groups.length - 1 - index;
+    const isLast = remaining === 0;
+    const endTime = isLast
+      ? duration
+      : Math.min(Math.max(Math.round(cumulative * duration), cursor + 1), duration - remaining);
+    const [label] = group.labels;
+    const lines = group.labels.map(l => fillTopic(pick(getSectionPlan(l).lines, random), subject, l));
+
+    segments.push({
+      startTime: cursor,
+      endTime,
+      label,
+      text: languageTag(language) + lines.join(' '),
+      visual: fillTopic(pick(getSectionPlan(label).visuals, random), subject, label)
+    });
+    cursor = endTime;
+  });
+
+  if (onSegment) {
+    for (let i = 0; i < segments.length; i++) {
+      await sleep(STREAM_DELAY_MS, signal);
+      onSegment(segments[i], i);
+    }
+  }
+
+  const topicTag = `#${subject.replace(/[^a-z0-9]/gi, '')}`;
+  const script: GeneratedScript = { topic, segments, keyFacts: [], hashtags: [topicTag, ...PLATFORM_HASHTAGS[platform]] };
+
+  if (useSearch) {
+    script.keyFacts = [
+      `Offline demo fact: habits around ${subject} form through repetition, not willpower.`,
+      `Offline demo fact: short pattern interrupts lower perceived stress.`,
+      `Offline demo fact: written cues improve follow-through on ${subject}.`
+    ];
+    script.sources = [{ title: 'Offline demo source (no network)', uri: 'https://example.com/offline-demo' }];
+  }
+
+  return script;
+};
+
+// Picks a different line for the same section, trimmed to the word budget
+const regenerateSegment = async ({ script, index, guidance = '', maxWords }: SegmentRegenerationRequest, signal?: AbortSignal): Promise<SegmentRewrite> => {
+  const target = script.segments[index];
+  const plan = getSectionPlan(target.label);
+  const subject = stripLanguageTag(script.topic).trim() || 'this';
+  const random = createRandom(hashString(`${target.text}|${guidance}|${index}`));
+
+  const candidates = plan.lines.map(line => fillTopic(line, subject, target.label)).filter(line => line !== target.text);
+  const words = (candidates.length ? pick(candidates, random) : target.text).split(/\s+/);
+  await sleep(STREAM_DELAY_MS, signal);
+
+  return {
+    text: languageTag(script.language) + words.slice(0, maxWords).join(' '),
+    visual: fillTopic(pick(plan.visuals, random), subject, target.label)
+  };
+};
+
+const HOOK_ANGLES = [
+  "You're doing {topic} wrong, and it's costing you every day.",
+  "97% of people never learn this about {topic}.",
+  "Stop. Don't try {topic} again until you hear this.",
+  "Why does {topic} feel so hard? Here's the real reason.",
+  "Nobody tells you the truth about {topic}.",
+  "Three seconds. That's all {topic} really takes.",
+  "What if everything you believed about {topic} was a myth?"
+];
+
+const generateHookVariants = async ({ script, count, maxWords }: HookVariantRequest, signal?: AbortSignal): Promise<SegmentRewrite[]> => {
+  const subject = stripLanguageTag(script.topic).trim() || 'this';
+  const hookPlan = SEGMENT_PLAN[0];
+  const random = createRandom(hashString(`${script.topic}|hooks|${count}`));
+  const pool = [...HOOK_ANGLES, ...hookPlan.lines];
+
+  // Deterministic shuffle, then take the first `count`
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  await sleep(STREAM_DELAY_MS, signal);
+
+  return pool.slice(0, count).map(line => ({
+    text: languageTag(script.language) + fillTopic(line, subject).split(/\s+/).slice(0, maxWords).join(' '),
+    visual: fillTopic(pick(hookPlan.visuals, random), subject)
+  }));
+};
+
+// Tags each segment with the target language and trims it to its word budget
+const translateScript = async ({ script, language, maxWords }: TranslationRequest, signal?: AbortSignal): Promise<ScriptTranslation> => {
+  await sleep(STREAM_DELAY_MS, signal);
+  const tag = languageTag(language);
+  return {
+    topic: tag + stripLanguageTag(script.topic),
+    segments: script.segments.map((s, i) => ({
+      text: (tag + stripLanguageTag(s.text)).split(/\s+/).slice(0, maxWords[i]).join(' '),
+      visual: s.visual
+    })),
+    hashtags: script.hashtags || [],
+    keyFacts: script.keyFacts || []
+  };
+};
+
+// Base frequency per voice so different tones are distinguishable in previews
+const VOICE_PITCH: Record<string, number> = {
+  Fenrir: 110,
+  Charon: 98,
+  Zephyr: 196,
+  Puck: 165,
+  Kore: 220
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+// Renders 16-bit little-endian mono PCM at 24kHz: one enveloped tone burst per word, with gaps between words.
+// The tones carry no pronunciation, so the language does not change the output.
+const generateSpeech = async (text: string, tone: ToneId, voiceOverride?: string, language?: Language, pace: SpeechPace = 'normal', signal?: AbortSignal): Promise<string> => {
+  throwIfAborted(signal);
+  const voiceName = voiceOverride || getVoiceForTone(tone);
+  const baseFrequency = VOICE_PITCH[voiceName] || 180;
+  const words = text.split(/\s+/).filter(Boolean);
+  const wordSeconds = 1 / (WORDS_PER_SECOND * PACE_FACTORS[pace]);
+  const totalSamples = Math.max(1, Math.round(words.length * wordSeconds * SAMPLE_RATE));
+  const samples = new Int16Array(totalSamples);
+
+  words.forEach((word, wordIndex) => {
+    const start = Math.round(wordIndex * wordSeconds * SAMPLE_RATE);
+    const length = Math.round(wordSeconds * 0.8 * SAMPLE_RATE);
+    const frequency = baseFrequency * (1 + (hashString(word) % 5) / 20);
+    for (let i = 0; i < length && start + i < totalSamples; i++) {
+      const envelope = Math.sin((Math.PI * i) / length);
+      const value = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.3;
+      samples[start + i] = Math.round(value * 32767);
+    }
+  });
+
+  return bytesToBase64(new Uint8Array(samples.buffer));
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c] as string));
+
+// Returns a 16:9 SVG placeholder with a gradient seeded by the description
+const generateImage = async (visualDescription: string, signal?: AbortSignal): Promise<string> => {
+  throwIfAborted(signal);
+  const hash = hashString(visualDescription);
+  const hueA = hash % 360;
+  const hueB = (hueA + 60) % 360;
+  const caption = visualDescription.length > 90 ? `${visualDescription.slice(0, 87)}...` : visualDescription;
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720" viewBox="0 0 1280 720">
+  <defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+    <stop offset="0" stop-color="hsl(${hueA},60%,25%)"/><stop offset="1" stop-color="hsl(${hueB},60%,12%)"/>
+  </linearGradient></defs>
+  <rect width="1280" height="720" fill="url(#g)"/>
+  <text x="640" y="330" font-family="sans-serif" font-size="28" font-weight="bold" fill="#ffffff" fill-opacity="0.5" text-anchor="middle">OFFLINE PLACEHOLDER</text>
+  <text x="640" y="390" font-family="sans-serif" font-size="24" fill="#ffffff" text-anchor="middle">${escapeXml(caption)}</text>
+</svg>`;
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const analyzeVoiceStyle = async (base64Audio: string, signal?: AbortSignal): Promise<VoiceProfile> => {
+  throwIfAborted(signal);
+  const voices = Object.keys(VOICE_PITCH);
+  const voiceName = voices[hashString(base64Audio.slice(0, 4096)) % voices.length];
+  return {
+    voiceName,
+    analysis: `Offline demo match: ${voiceName} was selected deterministically from the sample.`
+  };
+};
+
+export const offlineProvider: ScriptProvider = {
+  id: 'offline',
+  name: 'Offline Demo',
+  description: 'Deterministic scripts, tone audio and placeholder images. No key or network needed.',
+  speechModel: 'offline-tone',
+  imageModel: 'offline-placeholder',
+  isAvailable: () => true,
+  generateScript,
+  regenerateSegment,
+  generateHookVariants,
+  translateScript,
+  generateSpeech,
+  generateImage,
+  analyzeVoiceStyle
+};
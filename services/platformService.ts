@@ -0,0 +1,20 @@
+import { Platform, PlatformProfile } from "../types";
+import { PLATFORM_PROFILES } from "../constants";
+
+export const getPlatformProfile = (platform: Platform = Platform.YOUTUBE_SHORTS): PlatformProfile =>
+  PLATFORM_PROFILES[platform] || PLATFORM_PROFILES[Platform.YOUTUBE_SHORTS];
+
+export const clampDuration = (platform: Platform, duration: number): number => {
+  const { minDuration, maxDuration } = getPlatformProfile(platform);
+  return Math.min(maxDuration, Math.max(minDuration, duration));
+};
+
+// Platform conventions block used in generation prompts
+export const describePlatformConventions = (platform: Platform): string => {
+  const profile = getPlatformProfile(platform);
+  return [
+    `- CTA: ${profile.ctaGuidance} (e.g. ${profile.ctaExamples.map(e => `"${e}"`).join(', ')})`,
+    `- On-screen text safe zone: ${profile.safeZone}`,
+    `- Hashtags: ${profile.hashtagGuidance}`
+  ].join('\n');
+};
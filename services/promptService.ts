@@ -0,0 +1,207 @@
+import { BrandProfile, GenerationRequest, Platform, PromptRecord, PromptTemplate, PromptTemplateKind, PromptVariable, SpeechPace, ToneId } from "../types";
+import { DEFAULT_PROMPT_TEMPLATES } from "../constants";
+import { describeFrameworkStructure } from "./frameworkService";
+import { getPlatformProfile, describePlatformConventions } from "./platformService";
+import { delimitUserInput, MAX_VISUAL_PROMPT_LENGTH, USER_INPUT_GUARD } from "./inputSafety";
+import { describeLanguageRequirement } from "./languageService";
+import { describeBrandPersona, describeBrandRequirement } from "./brandService";
+import { describeTone } from "./toneService";
+
+const TEMPLATES_KEY = 'neuroviral_prompt_templates';
+const ACTIVE_KEY = 'neuroviral_active_prompts';
+
+// Variables each kind of template can reference
+export const PROMPT_VARIABLES: Record<PromptTemplateKind, PromptVariable[]> = {
+  script: ['topic', 'tone', 'duration', 'framework', 'frameworkStructure', 'platform', 'formatName', 'platformConventions'],
+  system: ['tone', 'platform', 'formatName'],
+  image: ['visual']
+};
+
+export const PROMPT_VARIABLE_DESCRIPTIONS: Record<PromptVariable, string> = {
+  topic: 'The topic typed in the form, wrapped in <topic> tags',
+  tone: 'Selected tone, e.g. "Urgent & Scientific"',
+  duration: 'Target length in seconds',
+  framework: 'Story framework name',
+  frameworkStructure: 'Numbered section list with timings',
+  platform: 'Target platform, e.g. "TikTok"',
+  formatName: 'How the platform names a video, e.g. "YouTube Short"',
+  platformConventions: 'CTA, safe zone and hashtag rules for the platform',
+  visual: 'The visual description being illustrated, wrapped in <visual> tags'
+};
+
+export const PROMPT_KIND_LABELS: Record<PromptTemplateKind, string> = {
+  script: 'Script Prompt',
+  system: 'Persona',
+  image: 'Image Prompt'
+};
+
+// Research mode returns raw JSON instead of schema output, so its format contract stays in code
+const RESEARCH_INSTRUCTIONS = `
+IMPORTANT: Perform a Google Search to find the latest scientific, trending, or relevant data on this topic to ensure accuracy.
+Include a 'keyFacts' array in the JSON response with 3-5 short, punchy bullet points of specific research or facts found during the search.
+
+OUTPUT FORMAT:
+Return a RAW JSON object (do not use Markdown code blocks).
+Structure:
+{
+  "segments": [
+    {
+      "startTime": number,
+      "endTime": number,
+      "label": "string",
+      "text": "string",
+      "visual": "string"
+    }
+  ],
+  "keyFacts": ["string", "string", "string"],
+  "hashtags": ["#string"]
+}`;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const isValidTemplate = (t: any): t is PromptTemplate =>
+  !!t && typeof t.id === 'string' && typeof t.body === 'string' && ['script', 'system', 'image'].includes(t.kind);
+
+export const loadCustomPromptTemplates = (): PromptTemplate[] => {
+  const saved = localStorage.getItem(TEMPLATES_KEY);
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isValidTemplate) : [];
+  } catch (e) {
+    console.error("Failed to parse prompt templates:", e);
+    return [];
+  }
+};
+
+export const saveCustomPromptTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+};
+
+export const getAllPromptTemplates = (custom: PromptTemplate[] = loadCustomPromptTemplates()): PromptTemplate[] =>
+  [...DEFAULT_PROMPT_TEMPLATES, ...custom];
+
+const getDefaultTemplate = (kind: PromptTemplateKind): PromptTemplate =>
+  DEFAULT_PROMPT_TEMPLATES.find(t => t.kind === kind)!;
+
+export const findPromptTemplate = (kind: PromptTemplateKind, id: string | undefined, templates: PromptTemplate[] = getAllPromptTemplates()): PromptTemplate =>
+  templates.find(t => t.kind === kind && t.id === id) || getDefaultTemplate(kind);
+
+export const loadActivePromptIds = (): Partial<Record<PromptTemplateKind, string>> => {
+  const saved = localStorage.getItem(ACTIVE_KEY);
+  if (!saved) return {};
+  try {
+    return JSON.parse(saved) || {};
+  } catch (e) {
+    console.error("Failed to parse active prompt templates:", e);
+    return {};
+  }
+};
+
+export const setActivePromptId = (kind: PromptTemplateKind, id: string) => {
+  localStorage.setItem(ACTIVE_KEY, JSON.stringify({ ...loadActivePromptIds(), [kind]: id }));
+};
+
+export const getActivePromptTemplate = (kind: PromptTemplateKind): PromptTemplate =>
+  findPromptTemplate(kind, loadActivePromptIds()[kind]);
+
+export const createPromptTemplateId = (kind: PromptTemplateKind) => `${kind}-custom-${Date.now().toString(36)}`;
+
+// Editable copy that starts its own version history
+export const duplicatePromptTemplate = (template: PromptTemplate): PromptTemplate => ({
+  ...template,
+  id: createPromptTemplateId(template.kind),
+  name: `${template.name} (Copy)`,
+  version: 1,
+  builtIn: false,
+  updatedAt: Date.now()
+});
+
+export const saveTemplateVersion = (template: PromptTemplate, changes: Pick<PromptTemplate, 'name' | 'body'>): PromptTemplate => ({
+  ...template,
+  ...changes,
+  version: changes.body === template.body ? template.version : template.version + 1,
+  updatedAt: Date.now()
+});
+
+// Placeholders in the body that the template's kind does not provide
+export const findUnknownVariables = (kind: PromptTemplateKind, body: string): string[] => {
+  const allowed = PROMPT_VARIABLES[kind] as string[];
+  const unknown = new Set<string>();
+  for (const match of body.matchAll(PLACEHOLDER)) {
+    if (!allowed.includes(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+};
+
+// Unknown placeholders are left in place so they are visible in the rendered prompt.
+// User-typed values (topic, visual) arrive already delimited, so templates never see raw input.
+export const renderTemplate = (body: string, variables: Partial<Record<PromptVariable, string>>): string =>
+  body.replace(PLACEHOLDER, (placeholder, name: string) => variables[name as PromptVariable] ?? placeholder).trim();
+
+export const buildScriptVariables = ({ topic, tone, duration, framework, platform }: GenerationRequest): Record<PromptVariable, string> => ({
+  topic: delimitUserInput(topic, 'topic'),
+  tone: describeTone(tone),
+  duration: String(duration),
+  framework: framework.name,
+  frameworkStructure: describeFrameworkStructure(framework, duration),
+  platform: platform.toUpperCase(),
+  formatName: getPlatformProfile(platform).formatName,
+  platformConventions: describePlatformConventions(platform),
+  visual: ''
+});
+
+// The brand voice and input guard are appended in code so a custom persona cannot drop them
+export const renderSystemInstruction = (
+  tone: ToneId,
+  platform: Platform = Platform.YOUTUBE_SHORTS,
+  template: PromptTemplate = getActivePromptTemplate('system'),
+  brand?: BrandProfile
+): string => {
+  const persona = renderTemplate(template.body, { tone: describeTone(tone), platform, formatName: getPlatformProfile(platform).formatName });
+  const brandPersona = describeBrandPersona(brand);
+  return `${persona}${brandPersona ? `\n\n${brandPersona}` : ''}\n\n${USER_INPUT_GUARD}`;
+};
+
+/**
+ * Renders the active script and persona templates for a request. The result is sent as-is by the
+ * provider and stored on the history entry, so the exact prompt of any run can be inspected later.
+ */
+export const renderScriptPrompts = (
+  request: GenerationRequest,
+  scriptTemplate: PromptTemplate = getActivePromptTemplate('script'),
+  systemTemplate: PromptTemplate = getActivePromptTemplate('system')
+): PromptRecord => {
+  let prompt = renderTemplate(scriptTemplate.body, buildScriptVariables(request));
+  const languageRequirement = describeLanguageRequirement(request.language);
+  if (languageRequirement) prompt += `\n\n${languageRequirement}`;
+  const brandRequirement = describeBrandRequirement(request.brand);
+  if (brandRequirement) prompt += `\n\n${brandRequirement}`;
+  if (request.useSearch) prompt += `\n${RESEARCH_INSTRUCTIONS}`;
+
+  return {
+    script: { id: scriptTemplate.id, version: scriptTemplate.version },
+    system: { id: systemTemplate.id, version: systemTemplate.version },
+    prompt,
+    systemInstruction: renderSystemInstruction(request.tone, request.platform, systemTemplate, request.brand)
+  };
+};
+
+export const renderImagePrompt = (visual: string, template: PromptTemplate = getActivePromptTemplate('image')): string =>
+  renderTemplate(template.body, { visual: delimitUserInput(visual, 'visual', MAX_VISUAL_PROMPT_LENGTH) });
+
+// Delivery notes the TTS model follows without reading them aloud
+const SPEECH_PACE_DIRECTIONS: Record<SpeechPace, string> = {
+  slower: 'Say this at a relaxed, noticeably slower pace',
+  normal: '',
+  faster: 'Say this at a brisk, noticeably faster pace'
+};
+
+export const renderSpeechText = (text: string, pace: SpeechPace = 'normal'): string =>
+  SPEECH_PACE_DIRECTIONS[pace] ? `${SPEECH_PACE_DIRECTIONS[pace]}: ${text}` : text;
+
+// Display name for a recorded template reference, e.g. "Default Script v2"
+export const describeTemplateRef = (kind: PromptTemplateKind, ref: { id: string; version: number }): string => {
+  const template = getAllPromptTemplates().find(t => t.kind === kind && t.id === ref.id);
+  return `${template ? template.name : ref.id} v${ref.version}`;
+};
@@ -0,0 +1,204 @@
+import { GeneratedScript, Language, ScriptSegment, Tone, ToneId } from "../types";
+import { getLanguageProfile, getScriptLanguage, splitWords } from "./languageService";
+import { getToneName } from "./toneService";
+
+export type SegmentPace = 'sparse' | 'good' | 'overloaded';
+
+export interface SegmentAnalysis {
+  words: number;
+  seconds: number;
+  wordsPerSecond: number;
+  targetWordsPerSecond: number;
+  pace: SegmentPace;
+  gradeLevel: number;
+  sentences: number;
+  avgSentenceLength: number;
+  longestSentence: number;
+  fillers: string[];
+  issues: string[];
+}
+
+export interface ScriptAnalysis {
+  segments: SegmentAnalysis[];
+  wordsPerSecond: number;
+  targetWordsPerSecond: number;
+  gradeLevel: number;
+  avgSentenceLength: number;
+  fillerCount: number;
+  hookWords: number;
+  hookSpokenSeconds: number; // How long the hook takes to say at the target rate
+  ctaAsksToSave: boolean;
+  ctaAsksToShare: boolean;
+  overloadedCount: number;
+  issues: string[];
+}
+
+// English narration pace per built-in tone; custom tones use the language's default pace.
+// Other languages are scaled by their profile's pace.
+const TONE_WORDS_PER_SECOND: Partial<Record<ToneId, number>> = {
+  [Tone.URGENT]: 2.8,
+  [Tone.MOTIVATIONAL]: 2.9,
+  [Tone.CALM]: 2.1,
+  [Tone.STORYTELLING]: 2.4,
+  [Tone.HUMOROUS]: 2.7,
+  [Tone.AUTHORITATIVE]: 2.3,
+  [Tone.PERSONAL]: 2.4
+};
+
+const ENGLISH_WORDS_PER_SECOND = getLanguageProfile(Language.ENGLISH).wordsPerSecond;
+
+// A segment is overloaded above this share of the target rate and sparse below the lower one
+const OVERLOAD_RATIO = 1.15;
+const SPARSE_RATIO = 0.6;
+export const MAX_SENTENCE_WORDS = 18;
+export const MAX_GRADE_LEVEL = 8; // Short-form audiences skim; aim for middle-school readability
+export const MAX_HOOK_SECONDS = 3;
+
+const FILLER_WORDS: Record<Language, string[]> = {
+  [Language.ENGLISH]: ['basically', 'literally', 'actually', 'really', 'very', 'just', 'kind of', 'sort of', 'you know', 'i mean', 'honestly', 'totally'],
+  [Language.SPANISH]: ['básicamente', 'literalmente', 'realmente', 'o sea', 'en plan', 'pues', 'tipo', 'la verdad'],
+  [Language.PORTUGUESE]: ['basicamente', 'literalmente', 'realmente', 'tipo', 'né', 'na verdade', 'meio que'],
+  [Language.FRENCH]: ['genre', 'en fait', 'du coup', 'littéralement', 'vraiment', 'franchement', 'quoi'],
+  [Language.GERMAN]: ['eigentlich', 'halt', 'quasi', 'sozusagen', 'irgendwie', 'wirklich', 'einfach']
+};
+
+// Word beginnings that ask the viewer to save or share, per language
+const SAVE_STEMS: Record<Language, string[]> = {
+  [Language.ENGLISH]: ['save', 'saving', 'bookmark'],
+  [Language.SPANISH]: ['guard', 'guárd'],
+  [Language.PORTUGUESE]: ['salv', 'guard'],
+  [Language.FRENCH]: ['enregistr', 'sauvegard'],
+  [Language.GERMAN]: ['speicher', 'merk']
+};
+
+const SHARE_STEMS: Record<Language, string[]> = {
+  [Language.ENGLISH]: ['share', 'sharing', 'send', 'tag'],
+  [Language.SPANISH]: ['compart', 'compárt', 'envi', 'enví', 'mand', 'etiquet'],
+  [Language.PORTUGUESE]: ['compartilh', 'envi', 'mand', 'marc'],
+  [Language.FRENCH]: ['partag', 'envoi', 'envoy', 'identifi'],
+  [Language.GERMAN]: ['teile', 'teilt', 'schick', 'markier']
+};
+
+// \b only understands ASCII, so word starts are found with a Unicode letter lookbehind
+const startsAnyWord = (text: string, stems: string[]) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])(${stems.join('|')})`, 'iu').test(text);
+
+export const getTargetWordsPerSecond = (tone: ToneId, language: Language = Language.ENGLISH): number =>
+  (TONE_WORDS_PER_SECOND[tone] ?? ENGLISH_WORDS_PER_SECOND) * (getLanguageProfile(language).wordsPerSecond / ENGLISH_WORDS_PER_SECOND);
+
+export const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?…])\s+/u).map(s => s.trim()).filter(s => splitWords(s).length > 0);
+
+// Vowel groups, minus a silent trailing "e"; close enough for a readability estimate
+export const countSyllables = (word: string): number => {
+  const cleaned = word.toLowerCase().replace(/[^\p{L}]/gu, '');
+  if (!cleaned) return 0;
+  const groups = cleaned.match(/[aeiouyàáâãäåèéêëìíîïòóôõöùúûü]+/g)?.length ?? 0;
+  const silentE = cleaned.length > 2 && cleaned.endsWith('e') && !/[aeiouy]le$/.test(cleaned) ? 1 : 0;
+  return Math.max(1, groups - silentE);
+};
+
+// Flesch-Kincaid grade level. The formula is calibrated for English, so treat other languages as a rough guide.
+const getGradeLevel = (words: string[], sentences: number): number => {
+  if (words.length === 0 || sentences === 0) return 0;
+  const syllables = words.reduce((sum, w) => sum + countSyllables(w), 0);
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.max(0, Math.round(grade * 10) / 10);
+};
+
+// Grade level of a standalone text, e.g. one segment checked against a brand's reading level
+export const getReadingGrade = (text: string): number =>
+  getGradeLevel(splitWords(text), Math.max(1, splitSentences(text).length));
+
+const findFillers = (text: string, language: Language): string[] => {
+  const lower = text.toLowerCase();
+  return FILLER_WORDS[language].flatMap(filler => {
+    const matches = lower.match(new RegExp(`(?<![\\p{L}\\p{N}])${filler}(?![\\p{L}\\p{N}])`, 'gu')) || [];
+    return matches.map(() => filler);
+  });
+};
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+export const analyzeSegment = (segment: ScriptSegment, tone: ToneId, language: Language = Language.ENGLISH): SegmentAnalysis => {
+  const words = splitWords(segment.text);
+  const seconds = Math.max(0, segment.endTime - segment.startTime);
+  const sentenceLengths = splitSentences(segment.text).map(s => splitWords(s).length);
+  const sentences = Math.max(1, sentenceLengths.length);
+  const targetWordsPerSecond = getTargetWordsPerSecond(tone, language);
+  const wordsPerSecond = seconds > 0 ? words.length / seconds : words.length;
+  const fillers = findFillers(segment.text, language);
+
+  const pace: SegmentPace = wordsPerSecond > targetWordsPerSecond * OVERLOAD_RATIO
+    ? 'overloaded'
+    : wordsPerSecond < targetWordsPerSecond * SPARSE_RATIO ? 'sparse' : 'good';
+  const longestSentence = Math.max(0, ...sentenceLengths);
+  const gradeLevel = getGradeLevel(words, sentences);
+
+  const issues: string[] = [];
+  if (pace === 'overloaded') {
+    const fits = Math.floor(seconds * targetWordsPerSecond);
+    issues.push(`Overloaded: ${words.length} words in ${seconds}s, about ${fits} fit at a ${getToneName(tone).toLowerCase()} pace`);
+  } else if (pace === 'sparse') {
+    issues.push(`Sparse: ${round(wordsPerSecond)} words/s leaves dead air`);
+  }
+  if (longestSentence > MAX_SENTENCE_WORDS) issues.push(`Long sentence: ${longestSentence} words`);
+  if (gradeLevel > MAX_GRADE_LEVEL) issues.push(`Reading grade ${gradeLevel}; aim for ${MAX_GRADE_LEVEL} or below`);
+  if (fillers.length > 0) issues.push(`Filler words: ${[...new Set(fillers)].join(', ')}`);
+
+  return {
+    words: words.length,
+    seconds,
+    wordsPerSecond: round(wordsPerSecond),
+    targetWordsPerSecond: round(targetWordsPerSecond),
+    pace,
+    gradeLevel,
+    sentences,
+    avgSentenceLength: round(words.length / sentences),
+    longestSentence,
+    fillers,
+    issues
+  };
+};
+
+/**
+ * Scores a script locally: pace against the tone's spoken rate, readability, sentence length and
+ * fillers per segment, plus hook length and whether the closing segment asks viewers to save and share.
+ */
+export const analyzeScript = (script: GeneratedScript, tone: ToneId): ScriptAnalysis => {
+  const language = getScriptLanguage(script);
+  const segments = script.segments.map(s => analyzeSegment(s, tone, language));
+  const allText = script.segments.map(s => s.text).join(' ');
+  const allWords = splitWords(allText);
+  const totalSeconds = script.segments.reduce((sum, s) => sum + Math.max(0, s.endTime - s.startTime), 0);
+  const totalSentences = segments.reduce((sum, s) => sum + s.sentences, 0);
+  const targetWordsPerSecond = getTargetWordsPerSecond(tone, language);
+
+  const hookWords = segments[0]?.words ?? 0;
+  const hookSpokenSeconds = round(hookWords / targetWordsPerSecond);
+  const closing = script.segments[script.segments.length - 1]?.text ?? '';
+  const ctaAsksToSave = startsAnyWord(closing, SAVE_STEMS[language]);
+  const ctaAsksToShare = startsAnyWord(closing, SHARE_STEMS[language]);
+  const overloadedCount = segments.filter(s => s.pace === 'overloaded').length;
+
+  const issues: string[] = [];
+  if (overloadedCount > 0) issues.push(`${overloadedCount} overloaded ${overloadedCount === 1 ? 'segment' : 'segments'}`);
+  if (hookSpokenSeconds > MAX_HOOK_SECONDS) issues.push(`Hook takes ${hookSpokenSeconds}s to say; aim for ${MAX_HOOK_SECONDS}s or less`);
+  if (!ctaAsksToSave) issues.push('CTA does not ask viewers to save');
+  if (!ctaAsksToShare) issues.push('CTA does not ask viewers to share');
+
+  return {
+    segments,
+    wordsPerSecond: round(totalSeconds > 0 ? allWords.length / totalSeconds : 0),
+    targetWordsPerSecond: round(targetWordsPerSecond),
+    gradeLevel: getGradeLevel(allWords, Math.max(1, totalSentences)),
+    avgSentenceLength: round(allWords.length / Math.max(1, totalSentences)),
+    fillerCount: segments.reduce((sum, s) => sum + s.fillers.length, 0),
+    hookWords,
+    hookSpokenSeconds,
+    ctaAsksToSave,
+    ctaAsksToShare,
+    overloadedCount,
+    issues
+  };
+};
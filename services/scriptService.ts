@@ -0,0 +1,183 @@
+import { GeneratedScript, ToneId, VoiceProfile, GenerationRequest, ScriptProvider, ProviderId, SegmentStreamHandler, ScriptSegment, SegmentRewrite, StoryFramework, Platform, Language, ScriptTranslation, BrandProfile, SpeechPace } from "../types";
+import { geminiProvider } from "./geminiService";
+import { getVoiceForTone, findCustomTone } from "./toneService";
+import { offlineProvider } from "./offlineProvider";
+import { validateScript, getWordBudget, countWords, findPacingOverruns } from "./scriptValidation";
+import { getScriptLanguage } from "./languageService";
+import { GenerationError } from "./errors";
+import { renderScriptPrompts } from "./promptService";
+import { sanitizeUserText, MAX_TOPIC_LENGTH, MAX_GUIDANCE_LENGTH, MAX_VISUAL_PROMPT_LENGTH } from "./inputSafety";
+import { mergeUsage } from "./usageService";
+import { hashMediaKey, getCachedMedia, putCachedMedia } from "./mediaCache";
+
+// Registry of available providers. New vendors only need to implement ScriptProvider and be listed here.
+export const PROVIDERS: ScriptProvider[] = [geminiProvider, offlineProvider];
+
+const STORAGE_KEY = 'neuroviral_provider';
+
+const findProvider = (id: string | null) => PROVIDERS.find(p => p.id === id);
+
+// Default to Gemini when a key is configured, otherwise fall back to the offline provider
+const resolveInitialProvider = (): ScriptProvider => {
+  const saved = findProvider(typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null);
+  if (saved && saved.isAvailable()) return saved;
+  return geminiProvider.isAvailable() ? geminiProvider : offlineProvider;
+};
+
+let activeProvider: ScriptProvider = resolveInitialProvider();
+
+export const getActiveProvider = (): ScriptProvider => activeProvider;
+
+export const setActiveProvider = (id: ProviderId): ScriptProvider => {
+  const provider = findProvider(id);
+  if (!provider) throw new Error(`Unknown provider: ${id}`);
+  activeProvider = provider;
+  localStorage.setItem(STORAGE_KEY, id);
+  return provider;
+};
+
+// Every provider's output goes through the same timing validation and repair pass.
+// Pass `onSegment` to stream: segments are delivered raw as they arrive, the resolved script is repaired.
+// Callers that record the prompt render it with renderScriptPrompts first and pass it in `request.prompts`.
+// User-typed text is cleaned and length-limited here, before any provider sees it.
+// Scripts written in a custom tone carry a copy of it, so exports and history keep its definition.
+export const generateScript = async (request: GenerationRequest, onSegment?: SegmentStreamHandler, signal?: AbortSignal): Promise<GeneratedScript> => {
+  const topic = sanitizeUserText(request.topic, MAX_TOPIC_LENGTH);
+  const prompts = request.prompts ?? renderScriptPrompts({ ...request, topic });
+  const script = await activeProvider.generateScript({ ...request, topic, prompts }, onSegment, signal);
+  const customTone = findCustomTone(request.tone);
+  return {
+    ...validateScript(script, request.duration, request.framework),
+    language: request.language ?? Language.ENGLISH,
+    ...(customTone ? { customTone } : {})
+  };
+};
+
+/**
+ * Rewrites one segment using the rest of the script as context. The returned segment keeps the
+ * original label and time window; a draft that overruns the word budget gets one stricter retry.
+ */
+export const regenerateSegment = async (
+  script: GeneratedScript,
+  index: number,
+  tone: ToneId,
+  framework: StoryFramework,
+  platform: Platform,
+  brand?: BrandProfile,
+  guidance?: string,
+  signal?: AbortSignal
+): Promise<ScriptSegment> => {
+  const original = script.segments[index];
+  const maxWords = getWordBudget(original.endTime - original.startTime, getScriptLanguage(script));
+  guidance = guidance ? sanitizeUserText(guidance, MAX_GUIDANCE_LENGTH) : undefined;
+
+  let rewrite = await activeProvider.regenerateSegment({ script, index, tone, framework, platform, brand, guidance, maxWords }, signal);
+  const words = countWords(rewrite.text);
+  if (words > maxWords) {
+    const retry = await activeProvider.regenerateSegment({ script, index, tone, framework, platform, brand, guidance, maxWords, previousWordCount: words }, signal);
+    if (countWords(retry.text) < words) rewrite = retry;
+  }
+
+  return { ...original, text: rewrite.text, visual: rewrite.visual };
+};
+
+// Asks the provider for alternative hooks sized to the current hook's time window
+export const generateHookVariants = (
+  script: GeneratedScript,
+  tone: ToneId,
+  platform: Platform,
+  count: number,
+  brand?: BrandProfile,
+  signal?: AbortSignal
+): Promise<SegmentRewrite[]> => {
+  const hook = script.segments[0];
+  const maxWords = getWordBudget(hook.endTime - hook.startTime, getScriptLanguage(script));
+  return activeProvider.generateHookVariants({ script, tone, platform, count, brand, maxWords }, signal);
+};
+
+// Translated text replaces each segment's text and visual; labels and time windows stay as they were.
+// Usage is the translation's own; the source script's generation cost stays with the source.
+const applyTranslation = (script: GeneratedScript, translation: ScriptTranslation, language: Language): GeneratedScript => ({
+  ...script,
+  topic: translation.topic || script.topic,
+  segments: script.segments.map((s, i) => ({ ...s, ...translation.segments[i] })),
+  hashtags: translation.hashtags.length ? translation.hashtags : script.hashtags,
+  keyFacts: translation.keyFacts.length ? translation.keyFacts : script.keyFacts,
+  timingRepairs: [],
+  language,
+  usage: translation.usage
+});
+
+/**
+ * Translates a script into `language`, keeping its segment structure and timings. Translations tend
+ * to run longer than the source, so overrunning segments get one stricter retry; whatever still does
+ * not fit is reported in `pacingWarnings`.
+ */
+export const translateScript = async (
+  script: GeneratedScript,
+  language: Language,
+  tone: ToneId,
+  platform: Platform,
+  signal?: AbortSignal
+): Promise<GeneratedScript> => {
+  const maxWords = script.segments.map(s => getWordBudget(s.endTime - s.startTime, language));
+  const request = { script, language, tone, platform, maxWords };
+
+  const translate = async (guidance?: string) => {
+    const translation = await activeProvider.translateScript({ ...request, guidance }, signal);
+    if (translation.segments.length !== script.segments.length || translation.segments.some(s => !s.text)) {
+      throw new GenerationError('MALFORMED_RESPONSE', `Translation returned ${translation.segments.length} segments for ${script.segments.length}`);
+    }
+    const translated = applyTranslation(script, translation, language);
+    return { translated, overruns: findPacingOverruns(translated.segments, language) };
+  };
+
+  let result = await translate();
+  let usage = result.translated.usage;
+  if (result.overruns.length > 0) {
+    const retry = await translate(`Your previous translation was too long for: ${result.overruns.join('; ')}. Stay within every word budget.`);
+    // Both attempts were billed, whichever one is kept
+    usage = mergeUsage(usage, retry.translated.usage);
+    if (retry.overruns.length < result.overruns.length) result = retry;
+  }
+  return { ...result.translated, pacingWarnings: result.overruns, usage };
+};
+
+// Media is cached per provider and model, keyed on everything that shapes the output
+// Normal pace adds nothing to the key, so audio cached before paces existed still matches
+const speechCacheKey = (provider: ScriptProvider, text: string, tone: ToneId, voiceOverride?: string, language: Language = Language.ENGLISH, pace: SpeechPace = 'normal') =>
+  hashMediaKey(['speech', provider.id, provider.speechModel, voiceOverride || getVoiceForTone(tone), language, text, ...(pace === 'normal' ? [] : [pace])]);
+
+const imageCacheKey = (provider: ScriptProvider, prompt: string) =>
+  hashMediaKey(['image', provider.id, provider.imageModel, prompt]);
+
+// Cached voiceover for these settings, without generating one on a miss
+export const getCachedSpeech = async (text: string, tone: ToneId, voiceOverride?: string, language?: Language, pace?: SpeechPace): Promise<string | null> =>
+  getCachedMedia(await speechCacheKey(activeProvider, text, tone, voiceOverride, language, pace));
+
+export const getCachedImage = async (visualDescription: string): Promise<string | null> =>
+  getCachedMedia(await imageCacheKey(activeProvider, sanitizeUserText(visualDescription, MAX_VISUAL_PROMPT_LENGTH)));
+
+export const generateSpeech = async (text: string, tone: ToneId, voiceOverride?: string, language?: Language, pace?: SpeechPace, signal?: AbortSignal): Promise<string> => {
+  const provider = activeProvider;
+  const key = await speechCacheKey(provider, text, tone, voiceOverride, language, pace);
+  const cached = await getCachedMedia(key);
+  if (cached) return cached;
+  const audio = await provider.generateSpeech(text, tone, voiceOverride, language, pace, signal);
+  await putCachedMedia(key, 'audio', audio);
+  return audio;
+};
+
+export const generateImage = async (visualDescription: string, signal?: AbortSignal): Promise<string> => {
+  const prompt = sanitizeUserText(visualDescription, MAX_VISUAL_PROMPT_LENGTH);
+  const provider = activeProvider;
+  const key = await imageCacheKey(provider, prompt);
+  const cached = await getCachedMedia(key);
+  if (cached) return cached;
+  const image = await provider.generateImage(prompt, signal);
+  await putCachedMedia(key, 'image', image);
+  return image;
+};
+
+export const analyzeVoiceStyle = (base64Audio: string, signal?: AbortSignal): Promise<VoiceProfile> =>
+  activeProvider.analyzeVoiceStyle(base64Audio, signal);
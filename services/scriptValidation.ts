@@ -0,0 +1,183 @@
+import { GeneratedScript, ScriptSegment, TimingRepair, StoryFramework, Language } from "../types";
+import { DEFAULT_FRAMEWORK } from "../constants";
+import { GenerationError } from "./errors";
+import { getLanguageProfile, splitWords } from "./languageService";
+
+export const countWords = (text: string) => splitWords(text).length;
+
+// Maximum number of spoken words that fit in a window of `seconds`, at the language's narration pace
+export const getWordBudget = (seconds: number, language: Language = Language.ENGLISH) =>
+  Math.max(3, Math.floor(seconds * getLanguageProfile(language).wordsPerSecond));
+
+// One message per segment whose text cannot be spoken within its time window
+export const findPacingOverruns = (segments: ScriptSegment[], language: Language = Language.ENGLISH): string[] =>
+  segments.flatMap(s => {
+    const seconds = s.endTime - s.startTime;
+    const words = countWords(s.text);
+    const budget = getWordBudget(seconds, language);
+    return words > budget ? [`${s.label}: ${words} words in ${seconds}s (budget ${budget})`] : [];
+  });
+
+// Ordered keyword rules for common synonyms: the first match wins, so CTA is checked before generic words like "action".
+// A rule only applies when the selected framework actually has that section.
+const LABEL_RULES: { label: string; pattern: RegExp }[] = [
+  { label: 'CTA', pattern: /\bCTA\b|CALL[\s-]*TO[\s-]*ACTION|OUTRO/ },
+  { label: 'HOOK', pattern: /HOOK|INTRO|OPENER/ },
+  { label: 'PROBLEM', pattern: /PROBLEM|PAIN|STRUGGLE|AGITAT/ },
+  { label: 'SOLUTION', pattern: /SOLUTION|\bFIX\b|ANSWER|TECHNIQUE/ },
+  { label: 'DEMONSTRATION', pattern: /DEMO|EXAMPLE|PRACTICE|WALKTHROUGH/ }
+];
+
+// Maps a free-form model label onto one of the framework's section labels
+export const normalizeLabel = (raw: unknown, framework: StoryFramework = DEFAULT_FRAMEWORK): string => {
+  const cleaned = String(raw ?? '')
+    .toUpperCase()
+    .replace(/^[\s\d.)#-]+/, '') // leading numbering like "1." or "#2 -"
+    .replace(/[\s:.\-–—]+$/, '') // trailing punctuation like "Hook:"
+    .trim();
+
+  const labels = framework.sections.map(s => s.label);
+  if (labels.includes(cleaned)) return cleaned;
+  // Section named inside a longer label, e.g. "THE HOOK" or "MYTH (COMMON BELIEF)"
+  const contained = labels.find(label => cleaned.includes(label));
+  if (contained) return contained;
+  const rule = LABEL_RULES.find(r => labels.includes(r.label) && r.pattern.test(cleaned));
+  return rule ? rule.label : cleaned || 'SEGMENT';
+};
+
+// Model output before validation: any field may be missing or of the wrong type
+type RawSegment = Partial<Record<keyof ScriptSegment, unknown>>;
+
+const toSeconds = (value: unknown): number | null => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+/**
+ * Validates raw model segments and repairs them into a continuous timeline of whole seconds
+ * that starts at 0 and ends exactly at `duration`. Every change is reported so the UI can show it.
+ */
+export const repairSegmentTiming = (
+  rawSegments: unknown[],
+  duration: number,
+  framework: StoryFramework = DEFAULT_FRAMEWORK
+): { segments: ScriptSegment[]; repairs: TimingRepair[] } => {
+  const repairs: TimingRepair[] = [];
+
+  // 1. Coerce fields and normalize labels
+  const coerced = rawSegments
+    .filter((raw): raw is RawSegment => !!raw && typeof raw === 'object')
+    .map((raw, index) => {
+      const label = normalizeLabel(raw.label, framework);
+      if (label !== raw.label) {
+        repairs.push({ kind: 'label', segmentIndex: index, message: `Renamed "${raw.label ?? ''}" to ${label}` });
+      }
+      const start = toSeconds(raw.startTime);
+      const end = toSeconds(raw.endTime);
+      const valid = start !== null && end !== null && end > start;
+      if (!valid) {
+        repairs.push({ kind: 'invalid', segmentIndex: index, message: `${label} had invalid times (${raw.startTime}–${raw.endTime}s)` });
+      }
+      return {
+        label,
+        text: String(raw.text ?? ''),
+        visual: String(raw.visual ?? ''),
+        start: start ?? 0,
+        length: valid ? (end as number) - (start as number) : 0,
+        valid,
+        originalIndex: index
+      };
+    });
+
+  if (coerced.length === 0) {
+    return { segments: [], repairs };
+  }
+
+  // 2. Restore chronological order (stable; invalid segments keep their position relative to neighbours)
+  const sorted = [...coerced].sort((a, b) => (a.valid && b.valid ? a.start - b.start : a.originalIndex - b.originalIndex));
+  if (sorted.some((seg, i) => seg !== coerced[i])) {
+    repairs.push({ kind: 'order', message: 'Reordered segments by start time' });
+  }
+
+  // 3. Detect gaps and overlaps between consecutive valid segments
+  for (let i = 1; i < sorted.length; i++) {
+    const prev = sorted[i - 1];
+    const curr = sorted[i];
+    if (!prev.valid || !curr.valid) continue;
+    const delta = curr.start - (prev.start + prev.length);
+    if (delta > 0) {
+      repairs.push({ kind: 'gap', segmentIndex: i, message: `Closed ${delta}s gap before ${curr.label}` });
+    } else if (delta < 0) {
+      repairs.push({ kind: 'overlap', segmentIndex: i, message: `Removed ${-delta}s overlap between ${prev.label} and ${curr.label}` });
+    }
+  }
+  if (sorted[0].valid && sorted[0].start > 0) {
+    repairs.push({ kind: 'gap', segmentIndex: 0, message: `Moved ${sorted[0].label} to start at 0s` });
+  }
+
+  // Invalid segments get the average valid length so they stay proportionate
+  const validLengths = sorted.filter(s => s.valid).map(s => s.length);
+  const fallbackLength = validLengths.length
+    ? validLengths.reduce((a, b) => a + b, 0) / validLengths.length
+    : duration / sorted.length;
+  const laid = sorted.map(s => ({ label: s.label, text: s.text, visual: s.visual, length: s.valid ? s.length : fallbackLength }));
+
+  // Every window needs at least one whole second, so with more segments than seconds the shortest
+  // is folded into its neighbour until they fit, keeping the earlier of the two labels
+  const slots = Math.max(1, duration);
+  while (laid.length > slots) {
+    const shortest = laid.reduce((best, s, i) => (s.length < laid[best].length ? i : best), 0);
+    const into = shortest === 0 ? 1 : shortest - 1;
+    const [first, second] = shortest < into ? [laid[shortest], laid[into]] : [laid[into], laid[shortest]];
+    repairs.push({ kind: 'merge', message: `Merged ${second.label} into ${first.label} to fit ${duration}s` });
+    laid[into] = {
+      label: first.label,
+      text: `${first.text} ${second.text}`.trim(),
+      visual: `${first.visual} ${second.visual}`.trim(),
+      length: first.length + second.length
+    };
+    laid.splice(shortest, 1);
+  }
+
+  // 4. Lay segments back to back and rescale to the requested duration on whole-second boundaries
+  const total = laid.reduce((sum, s) => sum + s.length, 0);
+  if (Math.round(total) !== duration) {
+    repairs.push({ kind: 'rescale', message: `Rescaled total from ${Math.round(total)}s to ${duration}s` });
+  }
+
+  const scale = duration / total;
+  const segments: ScriptSegment[] = [];
+  let cumulative = 0;
+  let previousEnd = 0;
+
+  laid.forEach((seg, i) => {
+    cumulative += seg.length;
+    const remaining = laid.length - 1 - i;
+    let endTime = i === laid.length - 1 ? duration : Math.round(cumulative * scale);
+    // Keep at least one second per segment while leaving room for the ones after it. The previous
+    // window left a second for each segment after it, so this can never end at or before its start.
+    endTime = Math.min(Math.max(endTime, previousEnd + 1), duration - remaining);
+    segments.push({
+      startTime: previousEnd,
+      endTime,
+      label: seg.label,
+      text: seg.text,
+      visual: seg.visual
+    });
+    previousEnd = endTime;
+  });
+
+  return { segments, repairs };
+};
+
+// Validates the parsed model payload and returns a script with a repaired timeline
+export const validateScript = (script: GeneratedScript, duration: number, framework: StoryFramework = DEFAULT_FRAMEWORK): GeneratedScript => {
+  if (!Array.isArray(script.segments)) {
+    throw new GenerationError('MALFORMED_RESPONSE', "Invalid response structure");
+  }
+  const { segments, repairs } = repairSegmentTiming(script.segments, duration, framework);
+  if (segments.length === 0) {
+    throw new GenerationError('MALFORMED_RESPONSE', "The generated script contained no usable segments");
+  }
+  return { ...script, segments, timingRepairs: repairs };
+};
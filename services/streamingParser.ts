@@ -0,0 +1,74 @@
+import { ScriptSegment } from "../types";
+
+// Finds the opening bracket of the segments array, tolerating Markdown fences or prose before it
+const SEGMENTS_ARRAY_START = /"segments"\s*:\s*\[/;
+
+/**
+ * Incrementally extracts complete segment objects from a streamed JSON response.
+ * Works with or without a response schema: it only needs a `"segments": [ ... ]` array somewhere in the text.
+ */
+export const createSegmentStreamParser = () => {
+  let buffer = '';
+  let cursor = -1; // Position in buffer to resume scanning from, -1 until the array is found
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+  let done = false;
+  const segments: ScriptSegment[] = [];
+
+  const push = (chunk: string): ScriptSegment[] => {
+    buffer += chunk;
+    const emitted: ScriptSegment[] = [];
+    if (done) return emitted;
+
+    if (cursor === -1) {
+      const match = SEGMENTS_ARRAY_START.exec(buffer);
+      if (!match) return emitted;
+      cursor = match.index + match[0].length;
+    }
+
+    for (; cursor < buffer.length; cursor++) {
+      const char = buffer[cursor];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 0 && char === '{') objectStart = cursor;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 0 && char === ']') {
+          done = true;
+          break;
+        }
+        depth--;
+        if (depth === 0 && char === '}' && objectStart !== -1) {
+          try {
+            const segment = JSON.parse(buffer.slice(objectStart, cursor + 1)) as ScriptSegment;
+            segments.push(segment);
+            emitted.push(segment);
+          } catch (e) {
+            // A malformed object is left for the final full-text parse to report
+            console.warn("Skipping unparsable streamed segment:", e);
+          }
+          objectStart = -1;
+        }
+      }
+    }
+
+    return emitted;
+  };
+
+  return {
+    push,
+    getText: () => buffer,
+    getSegments: () => segments
+  };
+};
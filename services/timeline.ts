@@ -0,0 +1,126 @@
+import { Language, ScriptSegment, SpeechPace, ToneId } from "../types";
+import { generateSpeech } from "./scriptService";
+import { decodeSpeech, getAudioContext } from "./audioUtils";
+import { findSpokenSpans, getWordTimings } from "./wordAlignment";
+
+// Speech this much longer than its window is still treated as fitting
+export const OVERRUN_TOLERANCE_SECONDS = 0.25;
+// Speech this much shorter than its window leaves dead air worth fixing
+export const UNDERRUN_TOLERANCE_SECONDS = 1;
+// Breathing room after each clip when the script is re-timed to its audio
+const RETIME_PADDING_SECONDS = 0.3;
+
+const PACE_STEPS: SpeechPace[] = ['slower', 'normal', 'faster'];
+
+export type SpeechFitKind = 'fits' | 'overrun' | 'underrun';
+
+export interface SpeechFit {
+  kind: SpeechFitKind;
+  audioSeconds: number;
+  windowSeconds: number;
+}
+
+export interface SpeechOverrun {
+  index: number;
+  audioSeconds: number;
+  windowSeconds: number;
+}
+
+export interface TimelinePosition {
+  index: number;
+  progress: number; // 0 to 100 through the segment's audio
+  seconds: number; // Into the segment's audio, for word timings
+}
+
+/**
+ * Generates (or reads from the media cache) and decodes the voiceover for every segment, in order.
+ * Segments are fetched one at a time so a long script doesn't fire a burst of TTS calls.
+ */
+export const loadSegmentSpeech = async (
+  segments: ScriptSegment[],
+  tone: ToneId,
+  voiceOverride: string | undefined,
+  language: Language | undefined,
+  onProgress?: (done: number) => void,
+  signal?: AbortSignal,
+  ctx: BaseAudioContext = getAudioContext()
+): Promise<AudioBuffer[]> => {
+  const buffers: AudioBuffer[] = [];
+  for (const segment of segments) {
+    const base64Audio = await generateSpeech(segment.text, tone, voiceOverride, language, segment.speechPace, signal);
+    buffers.push(decodeSpeech(base64Audio, ctx));
+    onProgress?.(buffers.length);
+  }
+  return buffers;
+};
+
+// Speech starts at each segment's startTime, so audio that overruns can push the Short past its last endTime
+export const getTimelineDuration = (segments: ScriptSegment[], audioSeconds: number[] = []): number =>
+  segments.reduce((end, s, i) => Math.max(end, s.endTime, s.startTime + (audioSeconds[i] ?? 0)), 0);
+
+/**
+ * When the voiceover is speaking, on the script's clock: each aligned word, or the whole clip for
+ * segments whose words haven't been aligned. Segments without loaded audio are left out.
+ */
+export const getSpeechSpans = (segments: ScriptSegment[], audioSeconds: number[]): [number, number][] =>
+  segments.flatMap((segment, i) => {
+    const audio = audioSeconds[i];
+    if (audio === undefined) return [];
+    const timings = getWordTimings(segment);
+    const spans = timings ? findSpokenSpans(timings) : [[0, audio] as [number, number]];
+    return spans.map(([start, end]): [number, number] => [segment.startTime + start, segment.startTime + end]);
+  });
+
+export const getSpeechFit = (segment: ScriptSegment, audioSeconds: number): SpeechFit => {
+  const windowSeconds = segment.endTime - segment.startTime;
+  const kind: SpeechFitKind = audioSeconds > windowSeconds + OVERRUN_TOLERANCE_SECONDS ? 'overrun'
+    : audioSeconds < windowSeconds - UNDERRUN_TOLERANCE_SECONDS ? 'underrun'
+    : 'fits';
+  return { kind, audioSeconds, windowSeconds };
+};
+
+export const findSpeechOverruns = (segments: ScriptSegment[], audioSeconds: number[]): SpeechOverrun[] =>
+  segments.flatMap((s, index) => {
+    const audio = audioSeconds[index];
+    if (audio === undefined) return [];
+    const fit = getSpeechFit(s, audio);
+    return fit.kind === 'overrun' ? [{ index, audioSeconds: audio, windowSeconds: fit.windowSeconds }] : [];
+  });
+
+// One speaking style step towards fitting the window, or null when the pace is already at its limit
+export const getPaceTowardsFit = (fit: SpeechFit, current: SpeechPace = 'normal'): SpeechPace | null => {
+  if (fit.kind === 'fits') return null;
+  const next = PACE_STEPS.indexOf(current) + (fit.kind === 'overrun' ? 1 : -1);
+  return PACE_STEPS[next] ?? null;
+};
+
+/**
+ * Lays the segments back to back, each window sized to its voiceover plus a little breathing
+ * room and rounded up to whole seconds like generated timings. Segments without audio keep their length.
+ */
+export const retimeToSpeech = (segments: ScriptSegment[], audioSeconds: number[]): ScriptSegment[] => {
+  let startTime = 0;
+  return segments.map((segment, i) => {
+    const audio = audioSeconds[i];
+    const length = audio !== undefined ? Math.max(1, Math.ceil(audio + RETIME_PADDING_SECONDS)) : segment.endTime - segment.startTime;
+    const retimed = { ...segment, startTime, endTime: startTime + length };
+    startTime += length;
+    return retimed;
+  });
+};
+
+/**
+ * The segment being heard at `seconds` into the script. Overlapping audio belongs to the later
+ * segment; between clips the segment whose window contains the time is reported at 100%.
+ */
+export const findTimelinePosition = (segments: ScriptSegment[], audioSeconds: number[], seconds: number): TimelinePosition | null => {
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const start = segments[i].startTime;
+    const audio = audioSeconds[i] ?? 0;
+    if (seconds >= start && seconds < start + audio) {
+      return { index: i, progress: ((seconds - start) / audio) * 100, seconds: seconds - start };
+    }
+  }
+  const index = segments.findIndex(s => seconds >= s.startTime && seconds < s.endTime);
+  return index === -1 ? null : { index, progress: 100, seconds: audioSeconds[index] ?? seconds - segments[index].startTime };
+};
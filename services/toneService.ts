@@ -0,0 +1,82 @@
+import { ToneId, ToneProfile } from "../types";
+import { DEFAULT_TONE_PROFILE, TONE_PROFILES } from "../constants";
+import { sanitizeUserText } from "./inputSafety";
+
+const STORAGE_KEY = 'neuroviral_tones';
+
+export const MAX_TONE_NAME_LENGTH = 60;
+export const MAX_TONE_DESCRIPTION_LENGTH = 300;
+
+const isValidTone = (t: any): t is ToneProfile =>
+  !!t && typeof t.id === 'string' && t.id.startsWith('tone-') && typeof t.name === 'string' &&
+  typeof t.voiceName === 'string' && !!t.ambience && Array.isArray(t.ambience.rootNotes);
+
+const loadCustomTones = (): ToneProfile[] => {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  if (!saved) return [];
+  try {
+    const parsed = JSON.parse(saved);
+    return Array.isArray(parsed) ? parsed.filter(isValidTone) : [];
+  } catch (e) {
+    console.error("Failed to parse custom tones:", e);
+    return [];
+  }
+};
+
+// Kept in memory so prompt builders and analysers can resolve a tone id without a storage read
+let customTones: ToneProfile[] = loadCustomTones();
+
+export const getCustomTones = (): ToneProfile[] => customTones;
+
+export const saveCustomTones = (tones: ToneProfile[]) => {
+  customTones = tones.filter(t => !t.builtIn);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(customTones));
+};
+
+// Built-ins first, then the user's own tones
+export const getAllTones = (custom: ToneProfile[] = customTones): ToneProfile[] => [...TONE_PROFILES, ...custom];
+
+export const findToneProfile = (id: ToneId | undefined, tones: ToneProfile[] = getAllTones()): ToneProfile =>
+  tones.find(t => t.id === id) || DEFAULT_TONE_PROFILE;
+
+// Custom tones only; undefined for built-ins and for ids that no longer exist
+export const findCustomTone = (id: ToneId | undefined): ToneProfile | undefined =>
+  customTones.find(t => t.id === id);
+
+// A history entry's snapshot names a custom tone that has since been deleted
+export const getToneName = (id: ToneId, snapshot?: ToneProfile): string =>
+  getAllTones().find(t => t.id === id)?.name ?? (snapshot?.id === id ? snapshot.name : findToneProfile(id).name);
+
+export const getVoiceForTone = (id: ToneId): string => findToneProfile(id).voiceName;
+
+/**
+ * How a tone is named in prompts. Built-in tones keep their bare name; custom tones add their
+ * description, since the model has never seen a name like "Dry British Wit" used as a style.
+ */
+export const describeTone = (id: ToneId): string => {
+  const profile = findToneProfile(id);
+  if (profile.builtIn) return profile.name;
+  const name = sanitizeUserText(profile.name, MAX_TONE_NAME_LENGTH);
+  const description = sanitizeUserText(profile.description, MAX_TONE_DESCRIPTION_LENGTH);
+  return description ? `${name} (${description})` : name;
+};
+
+export const createToneId = (): ToneId => `tone-${Date.now().toString(36)}`;
+
+// Editable copy of any tone, built-in or custom
+export const duplicateTone = (tone: ToneProfile): ToneProfile => ({
+  ...tone,
+  id: createToneId(),
+  name: `${tone.name} (Copy)`,
+  builtIn: false,
+  ambience: { ...tone.ambience, rootNotes: [...tone.ambience.rootNotes] }
+});
+
+/**
+ * Re-adds a custom tone from a history entry or script snapshot when it is missing locally, e.g.
+ * after it was deleted. Returns the updated list, or the same list when nothing was added.
+ */
+export const restoreCustomTone = (snapshot: ToneProfile | undefined, tones: ToneProfile[] = customTones): ToneProfile[] => {
+  if (!snapshot || !isValidTone(snapshot) || tones.some(t => t.id === snapshot.id)) return tones;
+  return [...tones, { ...snapshot, builtIn: false }];
+};
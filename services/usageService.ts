@@ -0,0 +1,188 @@
+import { BudgetSettings, ModelPrice, UsageCategory, UsageLine } from "../types";
+import { DEFAULT_MODEL_PRICES } from "../constants";
+import { GenerationError } from "./errors";
+
+const PRICES_KEY = 'neuroviral_model_prices';
+const BUDGET_KEY = 'neuroviral_budget';
+// Session totals live in sessionStorage: they survive a reload but start over in a new tab
+const SESSION_KEY = 'neuroviral_session_usage';
+
+const DEFAULT_BUDGET: BudgetSettings = { limitUsd: null, mode: 'warn' };
+
+// Rough sizes used to price a call before it is made
+const CHARS_PER_TOKEN = 4;
+const SPOKEN_CHARS_PER_SECOND = 15;
+const AUDIO_OUTPUT_TOKENS_PER_SECOND = 25;
+const AUDIO_INPUT_TOKENS_PER_SECOND = 32;
+const RECORDED_BYTES_PER_SECOND = 16000; // ~128 kbps compressed audio
+export const IMAGE_OUTPUT_TOKENS = 1290;
+
+export interface TokenEstimate {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// The billed fields of a response's usageMetadata
+interface BilledTokens {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+const readJson = <T,>(storage: Storage | undefined, key: string, fallback: T): T => {
+  const saved = storage?.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved) as T;
+  } catch (e) {
+    console.error(`Failed to parse ${key}:`, e);
+    return fallback;
+  }
+};
+
+const local = typeof localStorage !== 'undefined' ? localStorage : undefined;
+const session = typeof sessionStorage !== 'undefined' ? sessionStorage : undefined;
+
+// Saved prices override the defaults model by model, so newly added models still get a price
+let prices: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICES, ...readJson(local, PRICES_KEY, {}) };
+let budget: BudgetSettings = { ...DEFAULT_BUDGET, ...readJson(local, BUDGET_KEY, {}) };
+let sessionUsage: UsageLine[] = readJson(session, SESSION_KEY, []);
+
+type UsageListener = (line: UsageLine, attached: boolean) => void;
+type BudgetWarningListener = (message: string) => void;
+
+const usageListeners = new Set<UsageListener>();
+const warningListeners = new Set<BudgetWarningListener>();
+
+export const getModelPrices = (): Record<string, ModelPrice> => prices;
+
+export const setModelPrices = (updated: Record<string, ModelPrice>) => {
+  prices = updated;
+  local?.setItem(PRICES_KEY, JSON.stringify(updated));
+};
+
+export const resetModelPrices = () => {
+  prices = { ...DEFAULT_MODEL_PRICES };
+  local?.removeItem(PRICES_KEY);
+};
+
+export const getBudget = (): BudgetSettings => budget;
+
+export const setBudget = (updated: BudgetSettings) => {
+  budget = updated;
+  local?.setItem(BUDGET_KEY, JSON.stringify(updated));
+};
+
+export const getSessionUsage = (): UsageLine[] => sessionUsage;
+
+export const resetSessionUsage = () => {
+  sessionUsage = [];
+  session?.removeItem(SESSION_KEY);
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number): number => {
+  const price = prices[model];
+  if (!price) return 0;
+  return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+};
+
+export const estimateTextTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateSpeechTokens = (text: string): number =>
+  Math.ceil((text.length / SPOKEN_CHARS_PER_SECOND) * AUDIO_OUTPUT_TOKENS_PER_SECOND);
+
+export const estimateAudioInputTokens = (base64Audio: string): number =>
+  Math.ceil(((base64Audio.length * 0.75) / RECORDED_BYTES_PER_SECOND) * AUDIO_INPUT_TOKENS_PER_SECOND);
+
+// Merges a line into a ledger, summing it into the existing line for the same category and model
+export const addUsage = (ledger: UsageLine[], line: UsageLine): UsageLine[] => {
+  const existing = ledger.find(l => l.category === line.category && l.model === line.model);
+  if (!existing) return [...ledger, line];
+  return ledger.map(l => l === existing ? {
+    ...l,
+    calls: l.calls + line.calls,
+    ...(l.failedCalls || line.failedCalls ? { failedCalls: (l.failedCalls ?? 0) + (line.failedCalls ?? 0) } : {}),
+    inputTokens: l.inputTokens + line.inputTokens,
+    outputTokens: l.outputTokens + line.outputTokens,
+    costUsd: l.costUsd + line.costUsd
+  } : l);
+};
+
+export const mergeUsage = (...ledgers: (UsageLine[] | undefined)[]): UsageLine[] =>
+  ledgers.reduce<UsageLine[]>((merged, ledger) => (ledger || []).reduce(addUsage, merged), []);
+
+export const summarizeUsage = (ledger: UsageLine[] = []): UsageTotals =>
+  ledger.reduce(
+    (sum, l) => ({
+      calls: sum.calls + l.calls,
+      inputTokens: sum.inputTokens + l.inputTokens,
+      outputTokens: sum.outputTokens + l.outputTokens,
+      costUsd: sum.costUsd + l.costUsd
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  );
+
+// Sub-cent amounts keep four decimals so single calls don't all read as $0.00
+export const formatCost = (usd: number): string => `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/**
+ * Checked before every billable call. When the estimated cost would take the session past the cap,
+ * block mode throws a BUDGET_EXCEEDED error and warn mode notifies the warning listeners and lets the call through.
+ */
+export const checkBudget = (model: string, estimate: TokenEstimate) => {
+  if (budget.limitUsd === null) return;
+  const projected = summarizeUsage(sessionUsage).costUsd + estimateCost(model, estimate.inputTokens, estimate.outputTokens);
+  if (projected <= budget.limitUsd) return;
+
+  const message = `This call takes session spend to about ${formatCost(projected)}, over the ${formatCost(budget.limitUsd)} budget.`;
+  if (budget.mode === 'block') throw new GenerationError('BUDGET_EXCEEDED', message);
+  warningListeners.forEach(listener => listener(message));
+};
+
+/**
+ * Adds a completed call to the session totals and notifies listeners. `attached` marks calls whose
+ * usage the caller also returns on its result (a generated or translated script), so listeners
+ * attributing calls to the open script don't count them twice. `failed` marks a call that broke
+ * part-way but was still billed for what it had produced.
+ */
+export const recordUsage = (
+  category: UsageCategory,
+  model: string,
+  metadata: BilledTokens | undefined,
+  attached: boolean = false,
+  failed: boolean = false
+): UsageLine => {
+  const inputTokens = metadata?.promptTokenCount ?? 0;
+  const outputTokens = (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0);
+  const line: UsageLine = {
+    category,
+    model,
+    calls: 1,
+    ...(failed ? { failedCalls: 1 } : {}),
+    inputTokens,
+    outputTokens,
+    costUsd: estimateCost(model, inputTokens, outputTokens)
+  };
+
+  sessionUsage = addUsage(sessionUsage, line);
+  session?.setItem(SESSION_KEY, JSON.stringify(sessionUsage));
+  usageListeners.forEach(listener => listener(line, attached));
+  return line;
+};
+
+export const subscribeUsage = (listener: UsageListener) => {
+  usageListeners.add(listener);
+  return () => { usageListeners.delete(listener); };
+};
+
+export const subscribeBudgetWarnings = (listener: BudgetWarningListener) => {
+  warningListeners.add(listener);
+  return () => { warningListeners.delete(listener); };
+};
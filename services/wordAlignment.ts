@@ -0,0 +1,200 @@
+import { ScriptSegment, WordTiming } from "../types";
+import { splitWords } from "./languageService";
+import { countSyllables } from "./scriptAnalysis";
+
+const FRAME_SECONDS = 0.01;
+// A frame is silent below this share of the loudest frame's energy
+const SILENCE_RATIO = 0.08;
+// Shorter silences are the gaps between words, not pauses
+const MIN_PAUSE_SECONDS = 0.18;
+const MIN_SPEECH_SECONDS = 0.05;
+// How far (as a share of the text's syllables) a pause may move to land on punctuation instead of mid-phrase
+const BREAK_PREFERENCE = 0.04;
+
+const ENDS_WITH_PUNCTUATION = /[.,!?;:…]["'”’»)\]]*$/u;
+
+// Stage directions such as "[3 second pause]" are not spoken, so they take no speaking time
+const markCues = (words: string[]): boolean[] => {
+  let inCue = false;
+  return words.map(word => {
+    if (word.startsWith('[')) inCue = true;
+    const isCue = inCue;
+    if (word.includes(']')) inCue = false;
+    return isCue;
+  });
+};
+
+const getWeights = (words: string[], cues: boolean[]): number[] =>
+  words.map((word, i) => cues[i] ? 0 : Math.max(1, countSyllables(word)));
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Speech spans in the buffer, found from 10ms frame energy. Silences shorter than a pause are
+ * bridged, and blips too short to be a word are dropped.
+ */
+const findSpeechRegions = (buffer: AudioBuffer): [number, number][] => {
+  const data = buffer.getChannelData(0);
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const energies: number[] = [];
+  for (let start = 0; start < data.length; start += frameSize) {
+    const end = Math.min(start + frameSize, data.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += data[i] * data[i];
+    energies.push(Math.sqrt(sum / (end - start)));
+  }
+  const threshold = Math.max(...energies, 0) * SILENCE_RATIO;
+  if (threshold === 0) return [];
+
+  const frameSeconds = frameSize / buffer.sampleRate;
+  const regions: [number, number][] = [];
+  energies.forEach((energy, i) => {
+    if (energy < threshold) return;
+    const start = i * frameSeconds;
+    const last = regions[regions.length - 1];
+    if (last && start - last[1] < MIN_PAUSE_SECONDS) last[1] = start + frameSeconds;
+    else regions.push([start, start + frameSeconds]);
+  });
+  return regions
+    .filter(([start, end]) => end - start >= MIN_SPEECH_SECONDS)
+    .map(([start, end]): [number, number] => [start, Math.min(end, buffer.duration)]);
+};
+
+// Spreads words[from..to) across start..end in proportion to their weights
+const place = (timings: WordTiming[], words: string[], weights: number[], from: number, to: number, start: number, end: number) => {
+  const total = weights.slice(from, to).reduce((sum, w) => sum + w, 0);
+  let t = start;
+  for (let i = from; i < to; i++) {
+    const length = total > 0 ? ((end - start) * weights[i]) / total : 0;
+    timings[i] = { word: words[i], start: t, end: t + length };
+    t += length;
+  }
+};
+
+// Each run of cue words fills the silence between the spoken words around it
+const spanCues = (timings: WordTiming[], cues: boolean[], duration: number) => {
+  for (let i = 0; i < timings.length; i++) {
+    if (!cues[i]) continue;
+    let runEnd = i;
+    while (runEnd < timings.length && cues[runEnd]) runEnd++;
+    const start = i > 0 ? timings[i - 1].end : 0;
+    const end = runEnd < timings.length ? timings[runEnd].start : duration;
+    const step = Math.max(0, end - start) / (runEnd - i);
+    for (let j = i; j < runEnd; j++) {
+      timings[j] = { word: timings[j].word, start: start + step * (j - i), end: start + step * (j - i + 1) };
+    }
+    i = runEnd - 1;
+  }
+};
+
+const finish = (timings: WordTiming[], cues: boolean[], duration: number): WordTiming[] => {
+  spanCues(timings, cues, duration);
+  return timings.map(t => ({ word: t.word, start: round(t.start), end: round(t.end) }));
+};
+
+/**
+ * Timings spread by syllable count alone, for text without aligned audio. Cues get no time.
+ */
+export const estimateWordTimings = (text: string, seconds: number): WordTiming[] => {
+  const words = splitWords(text);
+  const cues = markCues(words);
+  const timings: WordTiming[] = [];
+  place(timings, words, getWeights(words, cues), 0, words.length, 0, seconds);
+  return finish(timings, cues, seconds);
+};
+
+/**
+ * Estimates when each word of `text` is spoken in its decoded voiceover. The audio is split into
+ * speech regions at pauses; each region takes the run of words whose share of the syllables best
+ * matches its share of the speaking time, preferring to break at punctuation, and words within a
+ * region are spread by syllable count. Stage directions span the pause they describe.
+ */
+export const alignWords = (text: string, buffer: AudioBuffer): WordTiming[] => {
+  const words = splitWords(text);
+  if (words.length === 0) return [];
+  const cues = markCues(words);
+  const weights = getWeights(words, cues);
+  const regions = findSpeechRegions(buffer);
+  if (regions.length === 0) return estimateWordTimings(text, buffer.duration);
+
+  const cumulative = [0];
+  weights.forEach(w => cumulative.push(cumulative[cumulative.length - 1] + w));
+  const totalWeight = cumulative[words.length];
+  const totalVoiced = regions.reduce((sum, [start, end]) => sum + end - start, 0);
+  const isBreak = (k: number) =>
+    k === words.length || (k > 0 && (ENDS_WITH_PUNCTUATION.test(words[k - 1]) || cues[k] !== cues[k - 1]));
+
+  const timings: WordTiming[] = [];
+  let from = 0;
+  let voiced = 0;
+  regions.forEach(([start, end], r) => {
+    voiced += end - start;
+    let to = words.length;
+    if (r < regions.length - 1) {
+      const ideal = (totalWeight * voiced) / totalVoiced;
+      let bestScore = Infinity;
+      for (let k = from; k <= words.length; k++) {
+        const score = Math.abs(cumulative[k] - ideal) / totalWeight - (isBreak(k) ? BREAK_PREFERENCE : 0);
+        if (score < bestScore) {
+          bestScore = score;
+          to = k;
+        }
+      }
+    }
+    place(timings, words, weights, from, to, start, end);
+    from = to;
+  });
+  return finish(timings, cues, buffer.duration);
+};
+
+export const timingsMatchText = (timings: WordTiming[], text: string): boolean => {
+  const words = splitWords(text);
+  return timings.length === words.length && timings.every((t, i) => t.word === words[i]);
+};
+
+// Stored timings, unless the segment was rewritten after they were aligned
+export const getWordTimings = (segment: ScriptSegment): WordTiming[] | undefined =>
+  segment.wordTimings && timingsMatchText(segment.wordTimings, segment.text) ? segment.wordTimings : undefined;
+
+// Index of the word being spoken at `seconds`: the last one to have started, so it stays lit through a pause
+export const findWordIndex = (timings: WordTiming[], seconds: number): number => {
+  if (seconds <= 0) return 0;
+  let index = 0;
+  timings.forEach((t, i) => {
+    if (t.start <= seconds) index = i;
+  });
+  return index;
+};
+
+/**
+ * Start and end of the phrase being spoken at `seconds`: its words run between the nearest
+ * punctuation on either side. Null when there is nothing to loop.
+ */
+export const findPhraseRange = (timings: WordTiming[], seconds: number): [number, number] | null => {
+  if (timings.length === 0) return null;
+  const index = findWordIndex(timings, seconds);
+  let first = index;
+  while (first > 0 && !ENDS_WITH_PUNCTUATION.test(timings[first - 1].word)) first--;
+  let last = index;
+  while (last < timings.length - 1 && !ENDS_WITH_PUNCTUATION.test(timings[last].word)) last++;
+  return timings[last].end > timings[first].start ? [timings[first].start, timings[last].end] : null;
+};
+
+// Start and end of each spoken word, leaving out stage directions, for ducking music under the voice
+export const findSpokenSpans = (timings: WordTiming[]): [number, number][] => {
+  const cues = markCues(timings.map(t => t.word));
+  return timings.filter((_, i) => !cues[i]).map((t): [number, number] => [t.start, t.end]);
+};
+
+/**
+ * Every spoken word in the script on the script's clock, for word-level captions. Segments
+ * without aligned audio fall back to syllable-weighted timings across their window.
+ */
+export const getCaptionWords = (segments: ScriptSegment[]): WordTiming[] =>
+  segments.flatMap(segment => {
+    const timings = getWordTimings(segment) ?? estimateWordTimings(segment.text, segment.endTime - segment.startTime);
+    const cues = markCues(timings.map(t => t.word));
+    return timings
+      .filter((_, i) => !cues[i])
+      .map(t => ({ word: t.word, start: round(segment.startTime + t.start), end: round(segment.startTime + t.end) }));
+  });
@@ -1,14 +1,34 @@
+export interface WordTiming {
+  word: string;
+  start: number; // Seconds into the segment's voiceover
+  end: number;
+}
+
+// Speaking style requested from TTS, used to fit speech to its window
+export type SpeechPace = 'slower' | 'normal' | 'faster';
+
 export interface ScriptSegment {
   startTime: number;
   endTime: number;
   label: string;
   text: string;
   visual: string;
+  wordTimings?: WordTiming[]; // Aligned against the decoded voiceover; ignored once the text no longer matches
+  speechPace?: SpeechPace; // Absent means normal
 }
 
 export interface ScriptSource {
   title: string;
   uri: string;
+  excerpts?: string[]; // Spans of the model's response that Search attributed to this source
+}
+
+export type TimingRepairKind = 'label' | 'order' | 'gap' | 'overlap' | 'invalid' | 'rescale' | 'merge';
+
+export interface TimingRepair {
+  kind: TimingRepairKind;
+  message: string;
+  segmentIndex?: number;
 }
 
 export interface GeneratedScript {
@@ -16,6 +36,12 @@ export interface GeneratedScript {
   segments: ScriptSegment[];
   sources?: ScriptSource[];
   keyFacts?: string[];
+  hashtags?: string[];
+  timingRepairs?: TimingRepair[];
+  language?: Language; // Absent on scripts saved before languages were supported, which are English
+  pacingWarnings?: string[]; // Segments whose translated text overruns their time window
+  usage?: UsageLine[]; // Model calls spent producing this script (generation or translation)
+  customTone?: ToneProfile; // Snapshot of the custom tone it was written in, so exports and history stay self-contained
 }
 
 export enum Tone {
@@ -28,23 +54,286 @@ export enum Tone {
   PERSONAL = 'Personal Anecdote'
 }
 
+// Built-in tones are identified by their enum value, custom tones by a generated "tone-" id
+export type ToneId = Tone | `tone-${string}`;
+
+export type AmbienceWaveform = 'sine' | 'triangle' | 'sawtooth' | 'square';
+
+// A steady pad, a pad over a soft kick pulse, or a full bed with kick and hi-hats
+export type MusicStyle = 'drone' | 'pulse' | 'beat';
+
+// Background music played under voiceover previews and exports
+export interface AmbiencePreset {
+  waveform: AmbienceWaveform;
+  rootNotes: number[]; // Hz, one oscillator per note
+  lfoRate: number; // Hz of the pitch wobble on the first note; 0 turns it off
+  gain: number; // Level of each oscillator before the volume slider
+  style?: MusicStyle; // Absent means drone, the original steady pad
+  tempo?: number; // Beats per minute for the pulse and beat styles
+}
+
+export interface ToneProfile {
+  id: ToneId;
+  name: string;
+  description: string; // How the tone should read, sent to the model with the name
+  voiceName: string; // TTS voice used when no voice clone is active
+  ambience: AmbiencePreset;
+  builtIn?: boolean;
+}
+
+export enum Platform {
+  YOUTUBE_SHORTS = 'YouTube Shorts',
+  TIKTOK = 'TikTok',
+  INSTAGRAM_REELS = 'Instagram Reels'
+}
+
+export enum Language {
+  ENGLISH = 'English',
+  SPANISH = 'Spanish',
+  PORTUGUESE = 'Portuguese',
+  FRENCH = 'French',
+  GERMAN = 'German'
+}
+
+export interface LanguageProfile {
+  code: string; // BCP 47 tag used for TTS and word segmentation, e.g. "es-US"
+  nativeName: string;
+  wordsPerSecond: number; // Comfortable narration pace; languages with longer words fit fewer per second
+}
+
+export interface PlatformProfile {
+  formatName: string; // How the video is referred to in prompts, e.g. "YouTube Short"
+  minDuration: number;
+  maxDuration: number;
+  ctaGuidance: string;
+  ctaExamples: string[];
+  safeZone: string;
+  hashtagGuidance: string;
+}
+
 export interface VoiceProfile {
   voiceName: string;
   analysis: string;
 }
 
+export type FrameworkColor = 'rose' | 'orange' | 'amber' | 'emerald' | 'teal' | 'cyan' | 'blue' | 'indigo' | 'violet' | 'pink' | 'slate';
+
+export interface FrameworkSection {
+  label: string;
+  percent: number; // Target share of the total duration
+  description: string;
+  color: FrameworkColor;
+}
+
+export interface StoryFramework {
+  id: string;
+  name: string;
+  description: string;
+  sections: FrameworkSection[];
+  builtIn?: boolean;
+}
+
+// A client's voice rules, applied to generation prompts and checked locally afterwards
+export interface BrandProfile {
+  id: string;
+  name: string;
+  persona: string; // Who the narrator is, e.g. "A friendly sports physio who explains the why"
+  bannedWords: string[];
+  disclaimers: string[]; // Each must be spoken somewhere in the script, word for word
+  ctaPhrases: string[]; // Preferred call-to-action wording; the closing segment should use one
+  maxReadingGrade?: number; // Flesch-Kincaid grade cap per segment
+  updatedAt?: number;
+}
+
+export type BrandViolationKind = 'banned-word' | 'disclaimer' | 'cta' | 'reading-level';
+
+export interface BrandViolation {
+  kind: BrandViolationKind;
+  message: string;
+  segmentIndex?: number; // Absent for script-wide problems such as a missing disclaimer
+  match?: string; // The offending text as it appears in the segment, for highlighting
+}
+
+export type PromptTemplateKind = 'script' | 'system' | 'image';
+
+// Placeholders a template may use, written as {{name}} in the template body
+export type PromptVariable =
+  | 'topic'
+  | 'tone'
+  | 'duration'
+  | 'framework'
+  | 'frameworkStructure'
+  | 'platform'
+  | 'formatName'
+  | 'platformConventions'
+  | 'visual';
+
+export interface PromptTemplate {
+  id: string;
+  kind: PromptTemplateKind;
+  name: string;
+  version: number; // Bumped every time an edited body is saved
+  body: string;
+  builtIn?: boolean;
+  updatedAt?: number;
+}
+
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+}
+
+// Exactly what was sent for a script generation, so a run can be reproduced and compared
+export interface PromptRecord {
+  script: PromptTemplateRef;
+  system: PromptTemplateRef;
+  prompt: string;
+  systemInstruction: string;
+}
+
 export interface GenerationRequest {
   topic: string;
-  tone: Tone;
+  tone: ToneId;
   duration: number;
+  framework: StoryFramework;
+  platform: Platform;
+  useSearch?: boolean;
+  language?: Language; // Output language, English when omitted
+  brand?: BrandProfile;
+  prompts?: PromptRecord; // Pre-rendered prompts; rendered from the active templates when omitted
+}
+
+export interface SegmentRegenerationRequest {
+  script: GeneratedScript;
+  index: number;
+  tone: ToneId;
+  framework: StoryFramework;
+  platform: Platform;
+  guidance?: string;
+  maxWords: number;
+  previousWordCount?: number; // Length of an earlier draft that overran maxWords, for the stricter retry
+  brand?: BrandProfile;
+}
+
+export interface HookVariantRequest {
+  script: GeneratedScript;
+  tone: ToneId;
+  platform: Platform;
+  count: number;
+  maxWords: number;
+  brand?: BrandProfile;
+}
+
+// Only the rewritable parts of a segment; timing and label always stay with the original
+export type SegmentRewrite = Pick<ScriptSegment, 'text' | 'visual'>;
+
+export interface TranslationRequest {
+  script: GeneratedScript;
+  language: Language;
+  tone: ToneId;
+  platform: Platform;
+  maxWords: number[]; // Word budget per segment, in the target language
+  guidance?: string;
+}
+
+// Translated content in segment order; timings and labels are kept from the source script
+export interface ScriptTranslation {
+  topic: string;
+  segments: SegmentRewrite[];
+  hashtags: string[];
+  keyFacts: string[];
+  usage?: UsageLine[];
+}
+
+export type UsageCategory = 'script' | 'tts' | 'image' | 'voice';
+
+// USD per million tokens. Thinking tokens are billed as output.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Accumulated calls for one model in one category; ledgers hold one line per pair
+export interface UsageLine {
+  category: UsageCategory;
+  model: string;
+  calls: number;
+  failedCalls?: number; // Of `calls`, streams that broke part-way after tokens were billed
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number; // Priced when the call was made; later price edits do not change it
+}
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetSettings {
+  limitUsd: number | null; // Session spend cap; null for no cap
+  mode: BudgetMode;
+}
+
+export type ProviderId = 'gemini' | 'offline';
+
+// Called with each segment as soon as it is complete while a script is streaming in. A retried stream
+// starts over with (null, -1) first, so segments shown from the failed attempt can be dropped.
+export type SegmentStreamHandler = (segment: ScriptSegment | null, index: number) => void;
+
+// Contract every generation backend implements (Gemini, offline demo, future vendors).
+// Every call takes an optional AbortSignal; an aborted call rejects with a CANCELLED GenerationError.
+export interface ScriptProvider {
+  id: ProviderId;
+  name: string;
+  description: string;
+  // Models behind generateSpeech and generateImage; part of the media cache key
+  speechModel: string;
+  imageModel: string;
+  isAvailable: () => boolean;
+  generateScript: (request: GenerationRequest, onSegment?: SegmentStreamHandler, signal?: AbortSignal) => Promise<GeneratedScript>;
+  regenerateSegment: (request: SegmentRegenerationRequest, signal?: AbortSignal) => Promise<SegmentRewrite>;
+  generateHookVariants: (request: HookVariantRequest, signal?: AbortSignal) => Promise<SegmentRewrite[]>;
+  translateScript: (request: TranslationRequest, signal?: AbortSignal) => Promise<ScriptTranslation>;
+  generateSpeech: (text: string, tone: ToneId, voiceOverride?: string, language?: Language, pace?: SpeechPace, signal?: AbortSignal) => Promise<string>;
+  generateImage: (visualDescription: string, signal?: AbortSignal) => Promise<string>;
+  analyzeVoiceStyle: (base64Audio: string, signal?: AbortSignal) => Promise<VoiceProfile>;
 }
 
 export interface HistoryItem {
   id: string;
   timestamp: number;
   script: GeneratedScript;
-  tone: Tone;
+  tone: ToneId;
+  duration: number;
+  frameworkId?: string;
+  platform?: Platform;
+  brandId?: string; // Brand profile the script was generated under
+  batchId?: string; // Set when the entry was produced by a batch run
+  translatedFromId?: string; // History entry this script was translated from
+  prompt?: PromptRecord;
+  usage?: UsageLine[]; // Calls made while working on the entry: rewrites, hooks, voiceovers, images
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  topic: string;
+  tone: ToneId;
   duration: number;
+  useSearch: boolean;
+  status: BatchItemStatus;
+  attempts: number;
+  error?: string;
+  historyId?: string;
+}
+
+export interface BatchJob {
+  id: string;
+  createdAt: number;
+  frameworkId: string;
+  platform: Platform;
+  language?: Language;
+  brandId?: string;
+  concurrency: number;
+  items: BatchItem[];
 }
 
 export interface ScriptTemplate {